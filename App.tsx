@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useReducer, useState } from "react";
 import {
   SafeAreaView,
   StyleSheet,
@@ -7,12 +7,14 @@ import {
   View,
   TextInput,
 } from "react-native";
-
-type Tile = {
-  id: number;
-  revealed: boolean;
-  isMine: boolean;
-};
+import {
+  canPick,
+  createGame,
+  gameReducer,
+  getCurrentPlayer,
+} from "@/lib/engine";
+import { randomSeed } from "@/lib/rng";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
 
 type Player = {
   id: number;
@@ -20,49 +22,46 @@ type Player = {
   slaps: number;
 };
 
-const GRID_SIZE = 5;
-const MAX_PICKS = 3;
-
-function createGrid(mineIndex: number): Tile[] {
-  return Array.from({ length: GRID_SIZE * GRID_SIZE }, (_, i) => ({
-    id: i,
-    revealed: false,
-    isMine: i === mineIndex,
-  }));
-}
+const PICK_PROMPT = `Pick up to ${DEFAULT_SETTINGS.picksPerTurn} tiles.`;
 
 export default function App() {
   const [players, setPlayers] = useState<Player[]>([]);
   const [playerName, setPlayerName] = useState("");
-  const [currentPlayerIndex, setCurrentPlayerIndex] = useState(0);
-  const [mineIndex, setMineIndex] = useState<number>(() =>
-    Math.floor(Math.random() * GRID_SIZE * GRID_SIZE)
+  const [game, dispatch] = useReducer(gameReducer, undefined, () =>
+    createGame({ players: [], seed: randomSeed() })
   );
-  const [grid, setGrid] = useState<Tile[]>(() => createGrid(mineIndex));
-  const [picksLeft, setPicksLeft] = useState(MAX_PICKS);
-  const [roundMessage, setRoundMessage] = useState("Pick up to 3 tiles.");
+  const [roundMessage, setRoundMessage] = useState(PICK_PROMPT);
+  const { grid, picksLeft, currentPlayerIndex } = game;
+  const currentPlayer = getCurrentPlayer(game);
 
-  const currentPlayer = useMemo(
-    () => (players.length ? players[currentPlayerIndex] : undefined),
-    [players, currentPlayerIndex]
-  );
+  useEffect(() => {
+    if (!game.slappedPlayer) return;
+    const slappedIndex = game.currentPlayerIndex;
+    setPlayers((prev) =>
+      prev.map((p, idx) =>
+        idx === slappedIndex ? { ...p, slaps: p.slaps + 1 } : p
+      )
+    );
+    setRoundMessage(`${game.slappedPlayer} hit the mine! Slap!`);
+    dispatch({ type: "dismissSlap", seed: randomSeed() });
+  }, [game.slappedPlayer, game.currentPlayerIndex]);
 
-  const resetRound = (nextPlayerIndex: number, message?: string) => {
-    const nextMine = Math.floor(Math.random() * GRID_SIZE * GRID_SIZE);
-    setMineIndex(nextMine);
-    setGrid(createGrid(nextMine));
-    setPicksLeft(MAX_PICKS);
-    setRoundMessage(message ?? "Pick up to 3 tiles.");
-    setCurrentPlayerIndex(nextPlayerIndex);
-  };
+  useEffect(() => {
+    if (picksLeft > 0 || game.isGameOver) return;
+    setRoundMessage(`${currentPlayer} is safe. Next player.`);
+    dispatch({ type: "endTurn" });
+  }, [picksLeft, game.isGameOver, currentPlayer]);
 
-  const advanceTurn = (message?: string) => {
-    if (players.length === 0) {
-      return;
-    }
-    const nextIndex = (currentPlayerIndex + 1) % players.length;
-    resetRound(nextIndex, message);
-  };
+  // Players added mid-round wait for a fresh board so the live one is kept.
+  const hasPicks = grid.some((tile) => tile.isRevealed);
+  useEffect(() => {
+    if (hasPicks || players.length === game.players.length) return;
+    dispatch({
+      type: "reset",
+      seed: randomSeed(),
+      players: players.map((p) => p.name),
+    });
+  }, [hasPicks, players, game.players.length]);
 
   const addPlayer = () => {
     const trimmed = playerName.trim();
@@ -72,38 +71,12 @@ export default function App() {
       { id: Date.now(), name: trimmed, slaps: 0 },
     ]);
     setPlayerName("");
-    if (players.length === 0) {
-      setCurrentPlayerIndex(0);
-    }
   };
 
   const handlePick = (tileId: number) => {
-    if (!currentPlayer || picksLeft === 0) return;
-    const pickedTile = grid.find((tile) => tile.id === tileId);
-    if (!pickedTile || pickedTile.revealed) return;
-
-    setGrid((prev) =>
-      prev.map((tile) =>
-        tile.id === tileId ? { ...tile, revealed: true } : tile
-      )
-    );
-
-    if (pickedTile.isMine) {
-      setPlayers((prev) =>
-        prev.map((p, idx) =>
-          idx === currentPlayerIndex ? { ...p, slaps: p.slaps + 1 } : p
-        )
-      );
-      advanceTurn(`${currentPlayer.name} hit the mine! Slap!`);
-      return;
-    }
-
-    const nextPicksLeft = picksLeft - 1;
-    setPicksLeft(nextPicksLeft);
-
-    if (nextPicksLeft === 0) {
-      advanceTurn(`${currentPlayer.name} is safe. Next player.`);
-    }
+    if (!canPick(game, tileId)) return;
+    setRoundMessage(PICK_PROMPT);
+    dispatch({ type: "pick", index: tileId });
   };
 
   return (
@@ -138,7 +111,11 @@ export default function App() {
                 >
                   {player.name}
                 </Text>
-                <Text style={styles.slapCount}>Slaps: {player.slaps}</Text>
+                <Text style={styles.slapCount}>
+                  {index < game.players.length
+                    ? `Slaps: ${player.slaps}`
+                    : "Joins next round"}
+                </Text>
               </View>
             ))}
           </View>
@@ -148,7 +125,7 @@ export default function App() {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Turn</Text>
         <Text style={styles.turnText}>
-          {currentPlayer ? `${currentPlayer.name}'s turn` : "No player"}
+          {currentPlayer ? `${currentPlayer}'s turn` : "No player"}
         </Text>
         <Text style={styles.subtle}>Picks left: {picksLeft}</Text>
         <Text style={styles.message}>{roundMessage}</Text>
@@ -160,14 +137,14 @@ export default function App() {
             key={tile.id}
             style={[
               styles.tile,
-              tile.revealed && tile.isMine && styles.tileMine,
-              tile.revealed && !tile.isMine && styles.tileSafe,
+              tile.isRevealed && tile.isMine && styles.tileMine,
+              tile.isRevealed && !tile.isMine && styles.tileSafe,
             ]}
             onPress={() => handlePick(tile.id)}
-            disabled={tile.revealed || picksLeft === 0 || !currentPlayer}
+            disabled={!canPick(game, tile.id)}
           >
             <Text style={styles.tileText}>
-              {tile.revealed ? (tile.isMine ? "💥" : "✅") : ""}
+              {tile.isRevealed ? (tile.isMine ? "💥" : "✅") : ""}
             </Text>
           </TouchableOpacity>
         ))}
@@ -6,6 +6,11 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { StatusBar } from "expo-status-bar";
 import { useColorScheme } from "react-native";
 import { Colors } from "@/constants/colors";
+import { HistoryProvider } from "@/hooks/useHistory";
+import { ProfilesProvider } from "@/hooks/useProfiles";
+import { ReplaysProvider } from "@/hooks/useReplays";
+import { SavedGameProvider } from "@/hooks/useSavedGame";
+import { ScoreboardProvider } from "@/hooks/useScoreboard";
 
 SplashScreen.preventAutoHideAsync();
 
@@ -21,19 +26,36 @@ export default function RootLayout() {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <GestureHandlerRootView style={{ flex: 1 }}>
-        <StatusBar style={colorScheme === "dark" ? "light" : "dark"} />
-        <Stack
-          screenOptions={{
-            headerShown: false,
-            contentStyle: { backgroundColor: theme.background },
-            animation: "slide_from_right",
-          }}
-        >
-          <Stack.Screen name="index" />
-          <Stack.Screen name="game" />
-        </Stack>
-      </GestureHandlerRootView>
+      <ScoreboardProvider>
+        <SavedGameProvider>
+          <HistoryProvider>
+            <ReplaysProvider>
+              <ProfilesProvider>
+                <GestureHandlerRootView style={{ flex: 1 }}>
+                  <StatusBar style={colorScheme === "dark" ? "light" : "dark"} />
+                  <Stack
+                    screenOptions={{
+                      headerShown: false,
+                      contentStyle: { backgroundColor: theme.background },
+                      animation: "slide_from_right",
+                    }}
+                  >
+                    <Stack.Screen name="index" />
+                    <Stack.Screen name="settings" />
+                    <Stack.Screen name="game" />
+                    <Stack.Screen name="history" />
+                    <Stack.Screen name="replay" />
+                    <Stack.Screen name="join" />
+                    <Stack.Screen name="remote" />
+                    <Stack.Screen name="play" />
+                    <Stack.Screen name="import" />
+                  </Stack>
+                </GestureHandlerRootView>
+              </ProfilesProvider>
+            </ReplaysProvider>
+          </HistoryProvider>
+        </SavedGameProvider>
+      </ScoreboardProvider>
     </QueryClientProvider>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -6,359 +6,836 @@ import {
   TouchableOpacity,
   useWindowDimensions,
   Modal,
+  Platform,
   useColorScheme,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { ArrowLeft, Hand, Bomb, RotateCcw, Plus, Minus } from "lucide-react-native";
+import {
+  ArrowLeft,
+  Bot,
+  Coins,
+  EyeOff,
+  Hand,
+  RotateCcw,
+  Plus,
+  Minus,
+  Scale,
+  Shield,
+  SkipForward,
+  Trophy,
+  Wifi,
+  WifiOff,
+} from "lucide-react-native";
 import * as Haptics from "expo-haptics";
-import Animated, {
-  useSharedValue,
-  useAnimatedStyle,
-  withTiming,
-  ZoomIn,
-} from "react-native-reanimated";
+import Animated, { ZoomIn } from "react-native-reanimated";
 import { Colors } from "@/constants/colors";
+import { CommitmentCard } from "@/components/CommitmentCard";
+import { gameStyles } from "@/components/gameStyles";
+import { HiderPlacement } from "@/components/HiderPlacement";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { PowerUpToast, type PowerUpToastItem } from "@/components/PowerUpToast";
+import { RiskMeter } from "@/components/RiskMeter";
+import { RouteError } from "@/components/RouteError";
+import { ScoreboardSheet } from "@/components/ScoreboardSheet";
+import {
+  getGridLayout,
+  GRID_PADDING,
+  MAX_GRID_WIDTH,
+  TileComponent,
+} from "@/components/TileComponent";
+import { TurnTimerBar } from "@/components/TurnTimerBar";
+import { WinnerModal } from "@/components/WinnerModal";
+import { useAnnouncement } from "@/hooks/useAnnouncement";
+import { useHistory } from "@/hooks/useHistory";
+import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
+import { useProfiles } from "@/hooks/useProfiles";
+import { useRelay } from "@/hooks/useRelay";
+import { useReplays } from "@/hooks/useReplays";
+import { useSavedGame } from "@/hooks/useSavedGame";
+import { useScoreboard } from "@/hooks/useScoreboard";
+import { type GameSession, useSessionStore } from "@/hooks/useSessionStore";
+import { BOT_INFO } from "@/lib/bots";
+import {
+  canEndTurn,
+  canPick,
+  canUseSkip,
+  dealMines,
+  type GameAction,
+  gameReducer,
+  getActivePlayers,
+  getCurrentPlayer,
+  getInventory,
+  getLayout,
+  getNextMineCount,
+  getPickers,
+  getPickValue,
+  getRoundPicks,
+  getScore,
+  getScoringHider,
+  hasCommitmentMismatch,
+} from "@/lib/engine";
+import { createSalt, formatHash } from "@/lib/fairness";
+import { createRoundRecord } from "@/lib/history";
+import {
+  claimSeat,
+  createClientId,
+  createPublicState,
+  DEFAULT_RELAY_URL,
+  getSeatOwner,
+  type RelayMessage,
+  type RemoteAction,
+} from "@/lib/network";
+import { getDangerLevel, getRiskOdds } from "@/lib/odds";
+import { createReplay } from "@/lib/replay";
+import { randomSeed, toRoundCode } from "@/lib/rng";
+import { gameParamsSchema } from "@/lib/session";
+import { describeHandicap, getMaxMines } from "@/lib/settings";
+import { chooseBotMove } from "@/lib/strategy";
+
+const AUTO_END_TURN_DELAY = 500;
+const BOT_MOVE_DELAY = 900;
+const LARGE_TEXT_SCALE = 1.3;
+
+const FOCUS_MOVES: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
 
-const GRID_SIZE = 5;
-const TOTAL_TILES = GRID_SIZE * GRID_SIZE;
-const GAP = 12;
-const GRID_PADDING = 24;
-const MAX_GRID_WIDTH = 420;
+function moveFocus(index: number | null, key: string, rows: number, columns: number): number {
+  if (index === null) return 0;
+  const [rowStep, columnStep] = FOCUS_MOVES[key];
+  const row = Math.min(rows - 1, Math.max(0, Math.floor(index / columns) + rowStep));
+  const column = Math.min(columns - 1, Math.max(0, (index % columns) + columnStep));
+  return row * columns + column;
+}
 
-type Tile = {
-  id: number;
-  isMine: boolean;
-  isRevealed: boolean;
-};
+export default function GameRoute() {
+  const params = useLocalSearchParams();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const parsed = gameParamsSchema(params);
+  const sessionId = parsed.ok ? parsed.value.session : "";
+  const session = useSessionStore((store) => store.sessions[sessionId]);
+
+  if (!parsed.ok) {
+    return (
+      <RouteError
+        title="Broken game link"
+        message="This link doesn't describe a game."
+        detail={parsed.error}
+        theme={theme}
+      />
+    );
+  }
+  if (!session) {
+    return (
+      <RouteError
+        title="Game not found"
+        message="This game has ended or was started on another visit. Start a new one from setup."
+        theme={theme}
+      />
+    );
+  }
+  return <GameScreen sessionId={sessionId} session={session} />;
+}
 
-export default function GameScreen() {
+function GameScreen({ sessionId, session }: { sessionId: string; session: GameSession }) {
   const router = useRouter();
-  const params = useLocalSearchParams();
   const colorScheme = useColorScheme();
   const theme = Colors[colorScheme ?? "light"];
-  const { width: windowWidth } = useWindowDimensions();
+  const { width: windowWidth, fontScale } = useWindowDimensions();
   const availableWidth = Math.min(windowWidth - GRID_PADDING * 2, MAX_GRID_WIDTH);
-  const tileSize = Math.floor(
-    (availableWidth - GAP * (GRID_SIZE - 1)) / GRID_SIZE
+  const [availableHeight, setAvailableHeight] = useState(0);
+  const [isScoreboardOpen, setIsScoreboardOpen] = useState(false);
+  const [toast, setToast] = useState<PowerUpToastItem | null>(null);
+  const [clientId] = useState(createClientId);
+  const [seats, setSeats] = useState<Record<string, string>>({});
+  const [focusedTile, setFocusedTile] = useState<number | null>(null);
+  const gridRef = useRef<View>(null);
+  const turnDeadline = useRef({ key: "", at: null as number | null });
+  const { state, room } = session;
+  const { addSafePick, addSlap, addHiderPoint } = useScoreboard();
+  const { saveGame, clearGame } = useSavedGame();
+  const { addRound } = useHistory();
+  const { addReplay } = useReplays();
+  const { getProfile } = useProfiles();
+
+  const dispatchSession = useSessionStore((store) => store.dispatch);
+  const setHostToken = useSessionStore((store) => store.setHostToken);
+  const dispatch = useCallback(
+    (action: GameAction) => dispatchSession(sessionId, action),
+    [dispatchSession, sessionId]
+  );
+  const { grid, seed, settings, picksLeft, slappedPlayer, isGameOver } = state;
+  const { mineCount } = settings;
+  const maxMines = getMaxMines(settings);
+  const { gap, tileSize, gridWidth } = getGridLayout(
+    availableWidth,
+    availableHeight,
+    settings.rows,
+    settings.columns
+  );
+  const currentPlayer = getCurrentPlayer(state);
+  const inventory = getInventory(state, currentPlayer ?? "");
+  const handicapLabels = describeHandicap(settings, currentPlayer ?? "");
+  const isCommitmentBroken = !!state.commitment && hasCommitmentMismatch(state);
+  const botDifficulty = currentPlayer ? state.bots[currentPlayer] : undefined;
+  const isBotTurn = !!botDifficulty;
+  const isRemoteTurn = !!getSeatOwner(seats, currentPlayer);
+  const canActLocally = !isBotTurn && !isRemoteTurn;
+  const endTurnDisabled = !canActLocally || !canEndTurn(state);
+  const turnKey = `${state.round}-${state.turn}`;
+  const isTimerActive =
+    settings.turnSeconds > 0 &&
+    !isGameOver &&
+    !state.isPlacing &&
+    !state.winner &&
+    picksLeft > 0 &&
+    !isBotTurn;
+  const hasRoundStarted = getRoundPicks(state).length > 0;
+  const isMineStepperLocked = hasRoundStarted || settings.mineRampStep > 0;
+  const danger = getDangerLevel(settings);
+  const dangerColors = [theme.success, theme.primary, theme.powerUp, theme.danger];
+  const nextMineCount = slappedPlayer ? getNextMineCount(state) : mineCount;
+  const isBotHider = !!state.hider && !!state.bots[state.hider];
+  const scoringHider = getScoringHider(state);
+  const lastEvent = state.events[state.events.length - 1];
+  const lostPot = lastEvent?.type === "slap" ? (lastEvent.lostPot ?? 0) : 0;
+  const isLargeText = fontScale >= LARGE_TEXT_SCALE;
+  const picksLeftLabel = `${picksLeft} ${picksLeft === 1 ? "pick" : "picks"} left`;
+
+  useAnnouncement(
+    slappedPlayer || state.winner || isGameOver
+      ? null
+      : state.isPlacing
+        ? `${state.hider} is hiding the mines`
+        : currentPlayer
+          ? `${currentPlayer}'s turn, ${picksLeftLabel}`
+          : null
+  );
+  useAnnouncement(
+    slappedPlayer
+      ? `${slappedPlayer} hit the mine and gets slapped!` +
+          (settings.elimination ? " They're out of the game." : "")
+      : null
   );
 
-  const players = (() => {
-    try {
-      return params.players ? (JSON.parse(params.players as string) as string[]) : [];
-    } catch {
-      return [];
-    }
-  })();
-
-  const [grid, setGrid] = useState<Tile[]>([]);
-  const [currentPlayerIndex, setCurrentPlayerIndex] = useState(0);
-  const [picksLeft, setPicksLeft] = useState(3);
-  const [slappedPlayer, setSlappedPlayer] = useState<string | null>(null);
-  const [isGameOver, setIsGameOver] = useState(false);
-  const [mineCount, setMineCount] = useState(1);
-  const picksLeftRef = useRef(picksLeft);
-  const turnLockedRef = useRef(false);
-
-  const initializeGame = useCallback(() => {
-    const newGrid: Tile[] = Array.from({ length: TOTAL_TILES }, (_, i) => ({
-      id: i,
-      isMine: false,
-      isRevealed: false,
-    }));
-
-    let minesPlaced = 0;
-    while (minesPlaced < mineCount) {
-      const randomIndex = Math.floor(Math.random() * TOTAL_TILES);
-      if (!newGrid[randomIndex].isMine) {
-        newGrid[randomIndex].isMine = true;
-        minesPlaced++;
-      }
-    }
+  useEffect(() => {
+    saveGame(session);
+  }, [session, saveGame]);
 
-    setGrid(newGrid);
-    setPicksLeft(3);
-    setIsGameOver(false);
-    setSlappedPlayer(null);
-    turnLockedRef.current = false;
-  }, [mineCount]);
+  useEffect(() => {
+    if (picksLeft > 0 || isGameOver) return;
+    const timeout = setTimeout(() => {
+      dispatch({ type: "endTurn", at: Date.now() });
+      Haptics.selectionAsync();
+    }, AUTO_END_TURN_DELAY);
+    return () => clearTimeout(timeout);
+  }, [picksLeft, isGameOver, dispatch]);
+
+  const playBotMove = () => {
+    if (!botDifficulty) return;
+    const move = chooseBotMove(state, botDifficulty, randomSeed());
+    if (move) performAction(move);
+  };
+  const playBotMoveRef = useRef(playBotMove);
+  playBotMoveRef.current = playBotMove;
 
   useEffect(() => {
-    initializeGame();
-  }, [initializeGame]);
+    if (!isBotTurn || isGameOver || state.isPlacing || state.winner || picksLeft === 0) return;
+    const timeout = setTimeout(() => playBotMoveRef.current(), BOT_MOVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [
+    isBotTurn,
+    isGameOver,
+    state.isPlacing,
+    state.winner,
+    picksLeft,
+    state.turn,
+    state.events.length,
+  ]);
 
   useEffect(() => {
-    picksLeftRef.current = picksLeft;
-  }, [picksLeft]);
+    if (!state.isPlacing || !isBotHider) return;
+    const timeout = setTimeout(() => {
+      dispatch({
+        type: "placeMines",
+        mines: dealMines(randomSeed(), settings),
+        at: Date.now(),
+      });
+    }, BOT_MOVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [state.isPlacing, isBotHider, settings, dispatch]);
+
+  const resetGame = () => {
+    dispatch({ type: "reset", seed: randomSeed(), salt: createSalt(), at: Date.now() });
+  };
 
-  const nextTurn = useCallback(() => {
-    setPicksLeft(3);
-    turnLockedRef.current = false;
-    setCurrentPlayerIndex((prev) => (players.length ? (prev + 1) % players.length : 0));
-    Haptics.selectionAsync();
-  }, [players.length]);
+  const changeMineCount = (nextMineCount: number) => {
+    if (isMineStepperLocked) return;
+    dispatch({
+      type: "reset",
+      seed,
+      salt: createSalt(),
+      settings: { mineCount: Math.min(maxMines, Math.max(1, nextMineCount)) },
+      at: Date.now(),
+    });
+  };
 
-  const handleTilePress = (index: number) => {
-    if (
-      isGameOver ||
-      grid[index]?.isRevealed ||
-      slappedPlayer ||
-      picksLeftRef.current <= 0 ||
-      turnLockedRef.current
-    )
-      return;
-
-    const tile = grid[index];
-    if (!tile) return;
-
-    const newGrid = [...grid];
-    newGrid[index].isRevealed = true;
-    setGrid(newGrid);
-
-    if (tile.isMine) {
+  const applyPicks = (action: GameAction & { at: number }) => {
+    const next = gameReducer(state, action);
+    if (next === state) return;
+    dispatch(action);
+    const newPicks = getRoundPicks(next).slice(getRoundPicks(state).length);
+    for (const pick of newPicks) {
+      if (!pick.isMine) addSafePick(pick.player);
+      if (pick.shielded) {
+        setToast({ id: pick.at, kind: "shield", message: "Shield blocked the mine!" });
+      } else if (pick.powerUp) {
+        setToast({ id: pick.at, kind: pick.powerUp });
+      }
+    }
+    if (next.isGameOver) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      turnLockedRef.current = true;
-      setSlappedPlayer(players[currentPlayerIndex]);
-      setIsGameOver(true);
+      addSlap(getPickers(state), next.slappedPlayer ?? "");
+      const hider = getScoringHider(next);
+      if (hider) addHiderPoint(hider);
+      const record = createRoundRecord(next, action.at);
+      addRound(record);
+      addReplay(createReplay(next, record.id));
     } else {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-      const newPicksLeft = picksLeftRef.current - 1;
-      picksLeftRef.current = newPicksLeft;
-
-      if (newPicksLeft === 0) {
-        setPicksLeft(0);
-        turnLockedRef.current = true;
-        setTimeout(() => {
-          nextTurn();
-        }, 500);
-      } else {
-        setPicksLeft(newPicksLeft);
+    }
+  };
+
+  const performAction = (action: RemoteAction) => {
+    const at = Date.now();
+    switch (action.type) {
+      case "pick":
+        if (canPick(state, action.index)) applyPicks({ ...action, at });
+        break;
+      case "endTurn":
+      case "useSkip":
+        if (gameReducer(state, { type: action.type, at }) === state) break;
+        dispatch({ type: action.type, at });
+        Haptics.selectionAsync();
+        break;
+      case "dismissSlap":
+        dispatch({ type: "dismissSlap", seed: randomSeed(), salt: createSalt(), at });
+        break;
+    }
+  };
+
+  const handleRelayMessage = (message: RelayMessage) => {
+    switch (message.type) {
+      case "claim": {
+        const next = claimSeat(seats, message.clientId, message.player, state);
+        setSeats(next);
+        // Only the claiming guest learns which seat it holds; everyone else sees names.
+        sendToRelay({
+          type: "seat",
+          clientId: message.clientId,
+          player: next[message.clientId] ?? null,
+        });
+        break;
       }
+      case "guestLeft":
+        setSeats((prev) => claimSeat(prev, message.clientId, null, state));
+        break;
+      case "action":
+        if (seats[message.clientId] !== message.player) break;
+        if (message.action.type === "dismissSlap" || message.player === currentPlayer) {
+          performAction(message.action);
+        }
+        break;
+    }
+  };
+
+  const { status: relayStatus, send: sendToRelay } = useRelay({
+    url: session.relay ?? DEFAULT_RELAY_URL,
+    room,
+    role: "host",
+    clientId,
+    token: session.hostToken,
+    onMessage: handleRelayMessage,
+    onToken: (token) => setHostToken(sessionId, token),
+  });
+
+  useEffect(() => {
+    const timerKey = `${turnKey}-${isTimerActive}`;
+    if (turnDeadline.current.key !== timerKey) {
+      const at = isTimerActive ? Date.now() + settings.turnSeconds * 1000 : null;
+      turnDeadline.current = { key: timerKey, at };
     }
+    if (relayStatus !== "open") return;
+    sendToRelay({
+      type: "state",
+      state: createPublicState(state, turnDeadline.current.at),
+      seated: Object.values(seats),
+    });
+  }, [state, seats, turnKey, isTimerActive, settings.turnSeconds, relayStatus, sendToRelay]);
+
+  const handleTilePress = (index: number) => {
+    if (!canActLocally) return;
+    performAction({ type: "pick", index });
+  };
+
+  const handleTimeout = () => {
+    applyPicks({ type: "timeout", seed: randomSeed(), at: Date.now() });
   };
 
   const handleEndTurn = () => {
-    if (picksLeft === 3) return;
-    turnLockedRef.current = true;
-    nextTurn();
+    if (endTurnDisabled) return;
+    performAction({ type: "endTurn" });
+  };
+
+  const handleUseSkip = () => {
+    if (!canActLocally) return;
+    performAction({ type: "useSkip" });
+  };
+
+  const handlePlaceMines = (mines: number[]) => {
+    dispatch({ type: "placeMines", mines, at: Date.now() });
+    Haptics.selectionAsync();
   };
 
   const handleSlapDismiss = () => {
-    setSlappedPlayer(null);
-    initializeGame();
-    setCurrentPlayerIndex((prev) => (players.length ? (prev + 1) % players.length : 0));
+    performAction({ type: "dismissSlap" });
+  };
+
+  // Enter and Space belong to the grid only while focus is on a tile or on nothing at all;
+  // a focused header or footer button keeps its own keyboard press.
+  const isGridTarget = (target: Element | null) => {
+    const gridNode = gridRef.current as unknown as Element | null;
+    return !target || target === document.body || !!gridNode?.contains(target);
   };
 
+  useKeyboardShortcuts((key, target) => {
+    if (slappedPlayer) {
+      if (key !== "Enter") return false;
+      handleSlapDismiss();
+      return true;
+    }
+    if (state.winner || state.isPlacing || isScoreboardOpen) return false;
+    if (key in FOCUS_MOVES) {
+      setFocusedTile((prev) => moveFocus(prev, key, settings.rows, settings.columns));
+      return true;
+    }
+    switch (key) {
+      case "Enter":
+      case " ":
+        if (focusedTile === null || !isGridTarget(target)) return false;
+        handleTilePress(focusedTile);
+        return true;
+      case "e":
+      case "E":
+        handleEndTurn();
+        return true;
+      case "r":
+      case "R":
+        resetGame();
+        return true;
+      default:
+        return false;
+    }
+  });
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
-      <View style={styles.header}>
+      <View style={gameStyles.header}>
         <TouchableOpacity
           onPress={() => router.back()}
-          style={[styles.iconButton, { backgroundColor: theme.card }]}
+          style={[gameStyles.iconButton, { backgroundColor: theme.card }]}
+          accessibilityRole="button"
+          accessibilityLabel="Back"
         >
           <ArrowLeft size={24} color={theme.text} />
         </TouchableOpacity>
-        <View style={styles.turnContainer}>
-          <Text style={[styles.turnLabel, { color: theme.textSecondary }]}
+        <View style={gameStyles.turnContainer}>
+          <Text style={[gameStyles.turnLabel, { color: theme.textSecondary }]}
           >
             Current Turn
           </Text>
-          <Text style={[styles.currentPlayer, { color: theme.text }]}
-          >
-            {players[currentPlayerIndex] ?? ""}
+          <View style={gameStyles.currentPlayerRow}>
+            {currentPlayer ? (
+              <PlayerAvatar
+                name={currentPlayer}
+                profile={getProfile(currentPlayer)}
+                size={28}
+              />
+            ) : null}
+            <Text
+              style={[gameStyles.currentPlayer, { color: theme.text }]}
+              accessibilityRole="header"
+              accessibilityLiveRegion="polite"
+            >
+              {currentPlayer ?? ""}
+            </Text>
+          </View>
+          {handicapLabels.length > 0 ? (
+            <View style={styles.inventoryRow}>
+              <View style={[styles.inventoryChip, { backgroundColor: theme.textSecondary }]}>
+                <Scale size={12} color="#FFF" />
+                <Text style={styles.inventoryText}>{handicapLabels.join(" · ")}</Text>
+              </View>
+            </View>
+          ) : null}
+          {botDifficulty ? (
+            <View style={styles.inventoryRow}>
+              <View style={[styles.inventoryChip, { backgroundColor: theme.textSecondary }]}>
+                <Bot size={12} color="#FFF" />
+                <Text style={styles.inventoryText}>{BOT_INFO[botDifficulty].label} Bot</Text>
+              </View>
+            </View>
+          ) : null}
+          {settings.banking && currentPlayer ? (
+            <View style={styles.inventoryRow}>
+              <View style={[styles.inventoryChip, { backgroundColor: theme.primary }]}>
+                <Coins size={12} color="#FFF" />
+                <Text style={styles.inventoryText}>
+                  {getScore(state, currentPlayer)} / {settings.targetScore}
+                </Text>
+              </View>
+            </View>
+          ) : null}
+          {state.hider ? (
+            <View style={styles.inventoryRow}>
+              <View style={[styles.inventoryChip, { backgroundColor: theme.textSecondary }]}>
+                <EyeOff size={12} color="#FFF" />
+                <Text style={styles.inventoryText}>Hider: {state.hider}</Text>
+              </View>
+            </View>
+          ) : null}
+          {inventory.shield > 0 || inventory.skip > 0 ? (
+            <View style={styles.inventoryRow}>
+              {inventory.shield > 0 && (
+                <View style={[styles.inventoryChip, { backgroundColor: theme.powerUp }]}>
+                  <Shield size={12} color="#FFF" />
+                  <Text style={styles.inventoryText}>Shield ×{inventory.shield}</Text>
+                </View>
+              )}
+              {inventory.skip > 0 && (
+                <TouchableOpacity
+                  onPress={handleUseSkip}
+                  disabled={!canActLocally || !canUseSkip(state)}
+                  style={[styles.inventoryChip, { backgroundColor: theme.powerUp }]}
+                  hitSlop={8}
+                >
+                  <SkipForward size={12} color="#FFF" />
+                  <Text style={styles.inventoryText}>Skip ×{inventory.skip}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : null}
+          <Text style={[styles.roundCode, { color: theme.textSecondary }]}>
+            Round {state.round}
+            {/* The code deals the whole board, so it stays hidden while the mines are live. */}
+            {slappedPlayer || isGameOver || state.winner ? ` · ${toRoundCode(seed)}` : ""}
           </Text>
+          {state.commitment ? (
+            <Text
+              style={[
+                styles.roundCode,
+                { color: isCommitmentBroken ? theme.danger : theme.textSecondary },
+              ]}
+            >
+              Commit {formatHash(state.commitment)}
+              {isCommitmentBroken ? " · mismatch" : ""}
+            </Text>
+          ) : null}
+          {room ? (
+            <View style={styles.roomRow}>
+              {relayStatus === "open" ? (
+                <Wifi size={12} color={theme.success} />
+              ) : (
+                <WifiOff size={12} color={theme.danger} />
+              )}
+              <Text style={[styles.roundCode, { color: theme.textSecondary }]}>
+                {relayStatus === "refused"
+                  ? `Room ${room} is hosted on another device`
+                  : `Room ${room} · ${Object.keys(seats).length} joined`}
+              </Text>
+            </View>
+          ) : null}
         </View>
         <TouchableOpacity
-          onPress={initializeGame}
-          style={[styles.iconButton, { backgroundColor: theme.card }]}
+          onPress={resetGame}
+          style={[gameStyles.iconButton, { backgroundColor: theme.card }]}
+          accessibilityRole="button"
+          accessibilityLabel="Re-deal board"
         >
           <RotateCcw size={24} color={theme.text} />
         </TouchableOpacity>
       </View>
 
-      <View style={[styles.statsContainer, { backgroundColor: theme.card }]}>
-        <View style={styles.statBox}>
-          <Text style={[styles.statValue, { color: theme.primary }]}>{picksLeft}</Text>
-          <Text style={[styles.statLabel, { color: theme.textSecondary }]}
+      <View style={[gameStyles.statsContainer, { backgroundColor: theme.card }]}>
+        <View
+          style={[gameStyles.statBox, isLargeText && styles.statBoxStacked]}
+          accessible
+          accessibilityLabel={picksLeftLabel}
+          accessibilityLiveRegion="polite"
+        >
+          <Text style={[gameStyles.statValue, { color: theme.primary }]}>{picksLeft}</Text>
+          <Text style={[gameStyles.statLabel, { color: theme.textSecondary }]}
           >
             Picks Left
           </Text>
         </View>
-        <View style={[styles.divider, { backgroundColor: theme.border }]} />
-        <View style={styles.statBox}>
+        {settings.banking ? (
+          <>
+            {!isLargeText && (
+              <View style={[gameStyles.divider, { backgroundColor: theme.border }]} />
+            )}
+            <View
+              style={[gameStyles.statBox, isLargeText && styles.statBoxStacked]}
+              accessible
+              accessibilityLabel={`Pot ${state.pot} points, next pick worth ${getPickValue(state)}`}
+            >
+              <Text style={[gameStyles.statValue, { color: theme.primary }]}>{state.pot}</Text>
+              <Text style={[gameStyles.statLabel, { color: theme.textSecondary }]}>
+                Pot · next +{getPickValue(state)}
+              </Text>
+            </View>
+          </>
+        ) : null}
+        {!isLargeText && <View style={[gameStyles.divider, { backgroundColor: theme.border }]} />}
+        <View style={[gameStyles.statBox, isLargeText && styles.statBoxStacked]}>
           <View style={styles.mineControls}>
             <TouchableOpacity
-              onPress={() => setMineCount((prev) => Math.max(1, prev - 1))}
-              style={[styles.controlButton, { backgroundColor: theme.cardSecondary }]}
+              onPress={() => changeMineCount(mineCount - 1)}
+              disabled={isMineStepperLocked}
+              style={[
+                styles.controlButton,
+                { backgroundColor: theme.cardSecondary },
+                isMineStepperLocked && styles.controlDisabled,
+              ]}
               hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel="Fewer mines"
+              accessibilityState={{ disabled: isMineStepperLocked }}
             >
               <Minus size={16} color={theme.text} />
             </TouchableOpacity>
 
             <Text
               style={[
-                styles.statValue,
+                gameStyles.statValue,
                 { color: theme.primary, minWidth: 30, textAlign: "center" },
               ]}
+              accessibilityLabel={`${mineCount} hidden ${mineCount === 1 ? "mine" : "mines"}`}
             >
               {mineCount}
             </Text>
 
             <TouchableOpacity
-              onPress={() => setMineCount((prev) => Math.min(24, prev + 1))}
-              style={[styles.controlButton, { backgroundColor: theme.cardSecondary }]}
+              onPress={() => changeMineCount(mineCount + 1)}
+              disabled={isMineStepperLocked}
+              style={[
+                styles.controlButton,
+                { backgroundColor: theme.cardSecondary },
+                isMineStepperLocked && styles.controlDisabled,
+              ]}
               hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel="More mines"
+              accessibilityState={{ disabled: isMineStepperLocked }}
             >
               <Plus size={16} color={theme.text} />
             </TouchableOpacity>
           </View>
-          <Text style={[styles.statLabel, { color: theme.textSecondary }]}
+          <Text style={[gameStyles.statLabel, { color: theme.textSecondary }]}
           >
             Hidden Mines
           </Text>
+          <View style={[styles.dangerBadge, { backgroundColor: dangerColors[danger.level - 1] }]}>
+            <Text style={styles.dangerText}>
+              Danger {danger.level} · {danger.label}
+            </Text>
+          </View>
         </View>
+        {settings.riskMeter ? (
+          <RiskMeter odds={getRiskOdds(state)} picksLeft={picksLeft} theme={theme} />
+        ) : null}
       </View>
 
-      <View style={styles.gridContainer}>
-        <View style={[styles.grid, { width: availableWidth }]}>
+      {settings.turnSeconds > 0 && (
+        <TurnTimerBar
+          seconds={settings.turnSeconds}
+          turnKey={turnKey}
+          active={isTimerActive}
+          onExpire={handleTimeout}
+          theme={theme}
+        />
+      )}
+
+      <View
+        style={gameStyles.gridContainer}
+        onLayout={(event) =>
+          setAvailableHeight(event.nativeEvent.layout.height - GRID_PADDING)
+        }
+      >
+        <PowerUpToast toast={toast} onHide={() => setToast(null)} theme={theme} />
+        <View ref={gridRef} style={[gameStyles.grid, { width: gridWidth, gap }]}>
           {grid.map((tile, index) => (
             <TileComponent
               key={tile.id}
               tile={tile}
               onPress={() => handleTilePress(index)}
-              disabled={isGameOver || tile.isRevealed || picksLeft === 0}
+              disabled={isGameOver || tile.isRevealed || picksLeft === 0 || !canActLocally}
               theme={theme}
               tileSize={tileSize}
+              columns={settings.columns}
+              showCount={settings.proximity}
+              isFocused={index === focusedTile}
             />
           ))}
         </View>
       </View>
 
-      <View style={styles.footer}>
+      <View style={gameStyles.footer}>
+        <TouchableOpacity
+          onPress={() => setIsScoreboardOpen(true)}
+          style={[styles.scoreboardButton, { backgroundColor: theme.card }]}
+          accessibilityRole="button"
+          accessibilityLabel="Scoreboard"
+        >
+          <Trophy size={24} color={theme.text} />
+        </TouchableOpacity>
         <TouchableOpacity
           style={[
-            styles.endTurnButton,
+            gameStyles.endTurnButton,
             { backgroundColor: theme.text },
-            (picksLeft === 3 || isGameOver) && { backgroundColor: theme.border },
+            endTurnDisabled && { backgroundColor: theme.border },
           ]}
           onPress={handleEndTurn}
-          disabled={picksLeft === 3 || isGameOver}
+          disabled={endTurnDisabled}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: endTurnDisabled }}
         >
           <Text
             style={[
-              styles.endTurnText,
+              gameStyles.endTurnText,
               { color: theme.background },
-              (picksLeft === 3 || isGameOver) && { color: theme.textSecondary },
+              endTurnDisabled && { color: theme.textSecondary },
             ]}
           >
-            End Turn
+            {settings.banking ? `Bank ${state.pot}` : "End Turn"}
           </Text>
         </TouchableOpacity>
       </View>
+      {Platform.OS === "web" ? (
+        <Text style={[styles.keyHint, { color: theme.textSecondary }]}>
+          Arrows move · Enter picks · E {settings.banking ? "banks" : "ends turn"} · R resets
+        </Text>
+      ) : null}
+
+      <ScoreboardSheet
+        visible={isScoreboardOpen}
+        onClose={() => setIsScoreboardOpen(false)}
+        players={state.players}
+        theme={theme}
+      />
 
       <Modal visible={!!slappedPlayer} transparent animationType="fade">
-        <View style={styles.modalOverlay}>
+        <View style={gameStyles.modalOverlay}>
           <Animated.View
             entering={ZoomIn.duration(400)}
-            style={[styles.slapCard, { backgroundColor: theme.card }]}
+            style={[gameStyles.slapCard, { backgroundColor: theme.card }]}
           >
-            <View style={[styles.slapIconContainer, { backgroundColor: theme.danger }]}
+            <View style={[gameStyles.slapIconContainer, { backgroundColor: theme.danger }]}
             >
               <Hand size={64} color="#FFF" />
             </View>
-            <Text style={[styles.slapTitle, { color: theme.danger }]}
+            <Text style={[gameStyles.slapTitle, { color: theme.danger }]}
             >
               You get slapped
             </Text>
-            <Text style={[styles.slapSubtitle, { color: theme.textSecondary }]}
+            {slappedPlayer ? (
+              <View style={styles.slapAvatar}>
+                <PlayerAvatar
+                  name={slappedPlayer}
+                  profile={getProfile(slappedPlayer)}
+                  size={56}
+                />
+              </View>
+            ) : null}
+            <Text
+              style={[gameStyles.slapSubtitle, { color: theme.textSecondary }]}
+              accessibilityLiveRegion="assertive"
             >
-              <Text style={[styles.slapName, { color: theme.text }]}>
+              <Text style={[gameStyles.slapName, { color: theme.text }]}>
                 {slappedPlayer}
               </Text>{" "}
               hit the mine!
+              {settings.elimination ? " They're out of the game." : ""}
+              {lostPot ? ` The ${lostPot}-point pot is lost.` : ""}
             </Text>
+            {scoringHider || nextMineCount > mineCount ? (
+              <View style={styles.slapNotes}>
+                {scoringHider ? (
+                  <Text style={[styles.slapNote, { color: theme.primary }]}>
+                    {scoringHider} scores as the hider!
+                  </Text>
+                ) : null}
+                {nextMineCount > mineCount ? (
+                  <Text style={[styles.slapNote, { color: theme.danger }]}>
+                    Mines rise to {nextMineCount} next round!
+                  </Text>
+                ) : null}
+              </View>
+            ) : null}
+            {slappedPlayer ? (
+              <CommitmentCard
+                key={state.commitment}
+                commitment={state.commitment}
+                salt={state.salt}
+                layout={getLayout(state)}
+                theme={theme}
+              />
+            ) : null}
 
             <TouchableOpacity
-              style={[styles.continueButton, { backgroundColor: theme.text }]}
+              style={[gameStyles.continueButton, { backgroundColor: theme.text }]}
               onPress={handleSlapDismiss}
             >
-              <Text style={[styles.continueText, { color: theme.background }]}>
-                Next Round
+              <Text style={[gameStyles.continueText, { color: theme.background }]}>
+                {settings.elimination && getActivePlayers(state).length <= 2
+                  ? "See Winner"
+                  : "Next Round"}
               </Text>
             </TouchableOpacity>
           </Animated.View>
         </View>
       </Modal>
-    </SafeAreaView>
-  );
-}
-
-function TileComponent({
-  tile,
-  onPress,
-  disabled,
-  theme,
-  tileSize,
-}: {
-  tile: Tile;
-  onPress: () => void;
-  disabled: boolean;
-  theme: typeof Colors.light;
-  tileSize: number;
-}) {
-  const rotate = useSharedValue(0);
 
-  useEffect(() => {
-    if (tile.isRevealed) {
-      rotate.value = withTiming(180, { duration: 300 });
-    } else {
-      rotate.value = withTiming(0, { duration: 0 });
-    }
-  }, [tile.isRevealed, rotate]);
-
-  const frontStyle = useAnimatedStyle(() => ({
-    transform: [{ perspective: 1000 }, { rotateY: `${rotate.value}deg` }],
-    backfaceVisibility: "hidden",
-    position: "absolute",
-    width: "100%",
-    height: "100%",
-  }));
-
-  const backStyle = useAnimatedStyle(() => ({
-    transform: [{ perspective: 1000 }, { rotateY: `${rotate.value - 180}deg` }],
-    backfaceVisibility: "hidden",
-    width: "100%",
-    height: "100%",
-  }));
-
-  return (
-    <TouchableOpacity
-      activeOpacity={0.8}
-      onPress={onPress}
-      disabled={disabled}
-      style={[styles.tileWrapper, { width: tileSize, height: tileSize }]}
-    >
-      <Animated.View
-        style={[
-          styles.tile,
-          styles.tileFront,
-          { backgroundColor: theme.card, borderColor: theme.border },
-          frontStyle,
-        ]}
+      {state.hider ? (
+        <HiderPlacement
+          key={`${state.round}-${state.turn}`}
+          visible={state.isPlacing && !isBotHider}
+          hider={state.hider}
+          rows={settings.rows}
+          columns={settings.columns}
+          mineCount={mineCount}
+          onConfirm={handlePlaceMines}
+          theme={theme}
+        />
+      ) : null}
+
+      <WinnerModal
+        winner={state.winner}
+        eliminated={state.eliminated}
+        subtitle={settings.banking ? `First to ${settings.targetScore} points` : undefined}
+        onPlayAgain={resetGame}
+        onExit={() => {
+          clearGame();
+          router.dismissTo("/");
+        }}
+        theme={theme}
       />
-      <Animated.View
-        style={[
-          styles.tile,
-          styles.tileBack,
-          tile.isMine
-            ? { backgroundColor: theme.mine, borderColor: theme.danger }
-            : { backgroundColor: theme.safe, borderColor: theme.success },
-          backStyle,
-        ]}
-      >
-        {tile.isMine ? <Bomb size={24} color="#FFF" /> : <View style={styles.safeDot} />}
-      </Animated.View>
-    </TouchableOpacity>
+    </SafeAreaView>
   );
 }
 
@@ -366,55 +843,40 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
-  header: {
+  roomRow: {
     flexDirection: "row",
     alignItems: "center",
-    justifyContent: "space-between",
-    paddingHorizontal: 24,
-    paddingVertical: 16,
+    gap: 4,
   },
-  iconButton: {
-    width: 44,
-    height: 44,
-    borderRadius: 22,
-    alignItems: "center",
+  inventoryRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
     justifyContent: "center",
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.05,
-    shadowRadius: 4,
-    elevation: 2,
+    gap: 6,
+    marginTop: 4,
   },
-  turnContainer: {
+  inventoryChip: {
+    flexDirection: "row",
     alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
   },
-  turnLabel: {
+  inventoryText: {
+    color: "#FFF",
     fontSize: 12,
-    fontWeight: "600",
-    textTransform: "uppercase",
-    letterSpacing: 1,
-  },
-  currentPlayer: {
-    fontSize: 20,
-    fontWeight: "800",
+    fontWeight: "700",
   },
-  statsContainer: {
-    flexDirection: "row",
-    justifyContent: "center",
-    alignItems: "center",
-    marginHorizontal: 24,
-    borderRadius: 20,
-    padding: 16,
-    marginBottom: 32,
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.05,
-    shadowRadius: 8,
-    elevation: 3,
+  roundCode: {
+    fontSize: 12,
+    fontWeight: "600",
+    letterSpacing: 2,
+    marginTop: 2,
   },
-  statBox: {
-    alignItems: "center",
-    flex: 1,
+  statBoxStacked: {
+    flexBasis: "100%",
+    marginVertical: 6,
   },
   mineControls: {
     flexDirection: "row",
@@ -430,123 +892,48 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "rgba(0,0,0,0.05)",
   },
-  divider: {
-    width: 1,
-    height: 32,
+  controlDisabled: {
+    opacity: 0.4,
   },
-  statValue: {
-    fontSize: 24,
-    fontWeight: "800",
-  },
-  statLabel: {
-    fontSize: 12,
-    fontWeight: "600",
-    marginTop: 4,
+  dangerBadge: {
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
   },
-  gridContainer: {
-    alignItems: "center",
-    justifyContent: "center",
-    paddingHorizontal: GRID_PADDING,
-    flex: 1,
-  },
-  grid: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    gap: GAP,
-    justifyContent: "center",
+  dangerText: {
+    color: "#FFF",
+    fontSize: 11,
+    fontWeight: "700",
   },
-  tileWrapper: {},
-  tile: {
-    borderRadius: 16,
+  scoreboardButton: {
+    width: 60,
+    borderRadius: 20,
     alignItems: "center",
     justifyContent: "center",
     shadowColor: "#000",
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.1,
-    shadowRadius: 6,
+    shadowRadius: 8,
     elevation: 4,
   },
-  tileFront: {
-    borderWidth: 1,
-  },
-  tileBack: {
-    position: "absolute",
-    top: 0,
-    left: 0,
-    borderWidth: 1,
-  },
-  safeDot: {
-    width: 12,
-    height: 12,
-    borderRadius: 6,
-    backgroundColor: "rgba(255,255,255,0.4)",
-  },
-  footer: {
-    padding: 24,
+  keyHint: {
+    fontSize: 12,
+    fontWeight: "600",
+    textAlign: "center",
     paddingBottom: 8,
   },
-  endTurnButton: {
-    paddingVertical: 18,
-    borderRadius: 20,
-    alignItems: "center",
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.2,
-    shadowRadius: 8,
-    elevation: 6,
-  },
-  endTurnText: {
-    fontSize: 18,
-    fontWeight: "700",
-  },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: "rgba(0,0,0,0.7)",
-    alignItems: "center",
-    justifyContent: "center",
-    padding: 24,
-  },
-  slapCard: {
-    borderRadius: 32,
-    padding: 32,
-    alignItems: "center",
-    width: "100%",
-    maxWidth: 340,
-  },
-  slapIconContainer: {
-    width: 100,
-    height: 100,
-    borderRadius: 50,
-    alignItems: "center",
-    justifyContent: "center",
-    marginBottom: 24,
-    transform: [{ rotate: "-15deg" }],
-  },
-  slapTitle: {
-    fontSize: 28,
-    fontWeight: "900",
+  slapAvatar: {
     marginBottom: 12,
-    textAlign: "center",
-    textTransform: "uppercase",
-  },
-  slapSubtitle: {
-    fontSize: 18,
-    textAlign: "center",
-    marginBottom: 32,
-    lineHeight: 24,
   },
-  slapName: {
-    fontWeight: "700",
-  },
-  continueButton: {
-    paddingVertical: 16,
-    paddingHorizontal: 32,
-    borderRadius: 16,
-    width: "100%",
-    alignItems: "center",
+  slapNotes: {
+    marginTop: -20,
+    marginBottom: 24,
+    gap: 4,
   },
-  continueText: {
-    fontSize: 18,
+  slapNote: {
+    fontSize: 16,
     fontWeight: "700",
+    textAlign: "center",
   },
 });
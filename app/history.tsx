@@ -0,0 +1,297 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SectionList,
+  Alert,
+  useColorScheme,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ArrowLeft, ChartColumn, Film, Trash2 } from "lucide-react-native";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { Colors } from "@/constants/colors";
+import { useHistory } from "@/hooks/useHistory";
+import { useReplays } from "@/hooks/useReplays";
+import { computePlayerStats, groupSessions } from "@/lib/history";
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function HistoryScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const { rounds, clearHistory } = useHistory();
+  const { getReplay } = useReplays();
+
+  const stats = computePlayerStats(rounds);
+  const sections = groupSessions(rounds).map((session) => ({
+    title: new Date(session.startedAt).toLocaleDateString(undefined, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    }),
+    players: session.players,
+    data: [...session.rounds].reverse(),
+  }));
+
+  const confirmClear = () => {
+    Alert.alert("Clear History", "Delete every recorded round?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Clear", style: "destructive", onPress: clearHistory },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[styles.iconButton, { backgroundColor: theme.card }]}
+        >
+          <ArrowLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.topTitle, { color: theme.text }]}>History</Text>
+        <TouchableOpacity
+          onPress={confirmClear}
+          disabled={rounds.length === 0}
+          style={[styles.iconButton, { backgroundColor: theme.card }]}
+        >
+          <Trash2 size={22} color={rounds.length ? theme.danger : theme.border} />
+        </TouchableOpacity>
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContent}
+        stickySectionHeadersEnabled={false}
+        ListHeaderComponent={
+          stats.length > 0 ? (
+            <Animated.View entering={FadeInDown.delay(100)} style={styles.statsSection}>
+              <View style={styles.sectionTitleRow}>
+                <ChartColumn size={20} color={theme.primary} />
+                <Text style={[styles.sectionTitle, { color: theme.text }]}>
+                  Unluckiest Players
+                </Text>
+              </View>
+              {stats.map((entry) => (
+                <View
+                  key={entry.name}
+                  style={[
+                    styles.statCard,
+                    { backgroundColor: theme.card, borderColor: theme.border },
+                  ]}
+                >
+                  <Text style={[styles.statName, { color: theme.text }]} numberOfLines={1}>
+                    {entry.name}
+                  </Text>
+                  <View style={styles.statRow}>
+                    <View style={styles.statBox}>
+                      <Text style={[styles.statValue, { color: theme.danger }]}>
+                        {formatPercent(entry.slapRate)}
+                      </Text>
+                      <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
+                        Slap Rate
+                      </Text>
+                    </View>
+                    <View style={styles.statBox}>
+                      <Text style={[styles.statValue, { color: theme.primary }]}>
+                        {entry.averagePicksSurvived.toFixed(1)}
+                      </Text>
+                      <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
+                        Avg Safe Picks
+                      </Text>
+                    </View>
+                    <View style={styles.statBox}>
+                      <Text style={[styles.statValue, { color: theme.success }]}>
+                        {entry.longestSafeStreak}
+                      </Text>
+                      <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
+                        Best Streak
+                      </Text>
+                    </View>
+                  </View>
+                  <Text style={[styles.statFooter, { color: theme.textSecondary }]}>
+                    {entry.slaps} slaps in {entry.roundsPlayed} rounds
+                  </Text>
+                </View>
+              ))}
+            </Animated.View>
+          ) : null
+        }
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sessionHeader}>
+            <Text style={[styles.sessionTitle, { color: theme.text }]}>{section.title}</Text>
+            <Text
+              style={[styles.sessionPlayers, { color: theme.textSecondary }]}
+              numberOfLines={1}
+            >
+              {section.players.join(", ")}
+            </Text>
+          </View>
+        )}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            onPress={() => router.push({ pathname: "/replay", params: { id: item.id } })}
+            disabled={!getReplay(item.id)}
+            style={[
+              styles.roundCard,
+              { backgroundColor: theme.card, borderColor: theme.border },
+            ]}
+          >
+            <View style={styles.roundText}>
+              <Text style={[styles.roundTitle, { color: theme.text }]}>
+                <Text style={{ color: theme.danger }}>{item.slappedPlayer}</Text> got slapped
+              </Text>
+              <Text style={[styles.roundMeta, { color: theme.textSecondary }]}>
+                {item.rows}×{item.columns} · {item.mineCount}{" "}
+                {item.mineCount === 1 ? "mine" : "mines"} ·{" "}
+                {new Date(item.finishedAt).toLocaleTimeString(undefined, {
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}
+              </Text>
+            </View>
+            <View style={styles.roundPicks}>
+              <Text style={[styles.roundPicksValue, { color: theme.primary }]}>
+                {item.picksBeforeMine}
+              </Text>
+              <Text style={[styles.statLabel, { color: theme.textSecondary }]}>picks</Text>
+            </View>
+            {getReplay(item.id) && <Film size={18} color={theme.textSecondary} />}
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+            No finished rounds yet
+          </Text>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  topBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  topTitle: {
+    fontSize: 20,
+    fontWeight: "800",
+  },
+  iconButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  listContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  statsSection: {
+    gap: 12,
+    marginBottom: 12,
+  },
+  sectionTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  statCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  statName: {
+    fontSize: 18,
+    fontWeight: "700",
+    marginBottom: 12,
+  },
+  statRow: {
+    flexDirection: "row",
+  },
+  statBox: {
+    flex: 1,
+    alignItems: "center",
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: "800",
+  },
+  statLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  statFooter: {
+    fontSize: 13,
+    marginTop: 12,
+    textAlign: "center",
+  },
+  sessionHeader: {
+    marginTop: 12,
+  },
+  sessionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  sessionPlayers: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  roundCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  roundText: {
+    flex: 1,
+  },
+  roundTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  roundMeta: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  roundPicks: {
+    alignItems: "center",
+    marginHorizontal: 12,
+  },
+  roundPicksValue: {
+    fontSize: 22,
+    fontWeight: "800",
+  },
+  emptyText: {
+    textAlign: "center",
+    fontSize: 16,
+    marginTop: 32,
+  },
+});
@@ -0,0 +1,245 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  useColorScheme,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ArrowLeft, ArrowRight, ScanLine } from "lucide-react-native";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { Colors } from "@/constants/colors";
+import { useProfiles } from "@/hooks/useProfiles";
+import { BOT_INFO } from "@/lib/bots";
+import { decodeSetupPayload, type SetupPayload, toSetupQuery } from "@/lib/payload";
+
+function describeRules(payload: SetupPayload): string {
+  const { settings } = payload;
+  const modes = [
+    settings.elimination && "Elimination",
+    settings.proximity && "Proximity",
+    settings.hider && "Hider",
+    settings.banking && "Push Your Luck",
+    settings.mineRampStep > 0 && "Mine Ramp",
+  ].filter(Boolean);
+  return [
+    `${settings.rows}×${settings.columns} board`,
+    `${settings.mineCount} ${settings.mineCount === 1 ? "mine" : "mines"}`,
+    `${settings.picksPerTurn} picks per turn`,
+    ...modes,
+    payload.code ? `Round ${payload.code.toUpperCase()}` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export default function ImportScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ setup?: string }>();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const { selectPlayers } = useProfiles();
+  const [text, setText] = useState(params.setup ?? "");
+  const result = text.trim() ? decodeSetupPayload(text) : null;
+
+  const importSetup = () => {
+    if (!result?.ok) return;
+    const { players, bots } = result.value;
+    selectPlayers(players.filter((name) => !bots[name]));
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    router.replace({ pathname: "/settings", params: toSetupQuery(result.value) });
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[styles.iconButton, { backgroundColor: theme.card }]}
+        >
+          <ArrowLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.content}
+      >
+        <Animated.View entering={FadeInDown.delay(100)} style={styles.header}>
+          <View style={[styles.iconContainer, { backgroundColor: theme.iconBackground }]}>
+            <ScanLine size={32} color={theme.text} />
+          </View>
+          <Text style={[styles.title, { color: theme.text }]}>Import Setup</Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            Scan a setup QR with your camera, or paste its text here
+          </Text>
+        </Animated.View>
+
+        <TextInput
+          style={[
+            styles.input,
+            {
+              backgroundColor: theme.inputBackground,
+              borderColor: theme.border,
+              color: theme.text,
+            },
+          ]}
+          placeholder='v1.{"players":[...]}'
+          placeholderTextColor={theme.textSecondary}
+          value={text}
+          onChangeText={setText}
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+        />
+
+        {result && !result.ok && (
+          <Text style={[styles.error, { color: theme.danger }]}>{result.error}</Text>
+        )}
+        {result?.ok && (
+          <View
+            style={[styles.summary, { backgroundColor: theme.card, borderColor: theme.border }]}
+          >
+            <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Players</Text>
+            <Text style={[styles.summaryValue, { color: theme.text }]}>
+              {result.value.players
+                .map((name) => {
+                  const bot = result.value.bots[name];
+                  return bot ? `${name} (${BOT_INFO[bot].label} bot)` : name;
+                })
+                .join(", ")}
+            </Text>
+            <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Rules</Text>
+            <Text style={[styles.summaryValue, { color: theme.text }]}>
+              {describeRules(result.value)}
+            </Text>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.importButton,
+            { backgroundColor: theme.primary, shadowColor: theme.primary },
+            !result?.ok && { backgroundColor: theme.border, shadowOpacity: 0 },
+          ]}
+          onPress={importSetup}
+          disabled={!result?.ok}
+        >
+          <Text style={[styles.importButtonText, { color: theme.primaryForeground }]}>
+            Review Rules
+          </Text>
+          <ArrowRight size={20} color={theme.primaryForeground} />
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  topBar: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  iconButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+    gap: 12,
+  },
+  header: {
+    marginBottom: 20,
+    alignItems: "center",
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "800",
+    marginBottom: 8,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: "center",
+  },
+  input: {
+    minHeight: 96,
+    maxHeight: 160,
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    fontSize: 14,
+    textAlignVertical: "top",
+  },
+  error: {
+    fontSize: 14,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  summary: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    gap: 4,
+  },
+  summaryLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginTop: 4,
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: "600",
+    lineHeight: 21,
+  },
+  footer: {
+    padding: 24,
+    paddingTop: 8,
+  },
+  importButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    height: 60,
+    borderRadius: 20,
+    gap: 12,
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  importButtonText: {
+    fontSize: 20,
+    fontWeight: "700",
+  },
+});
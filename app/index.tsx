@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -11,51 +11,204 @@ import {
   Alert,
   useColorScheme,
 } from "react-native";
-import { useRouter } from "expo-router";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { Plus, X, Play, Users } from "lucide-react-native";
+import {
+  Bot,
+  Plus,
+  X,
+  Play,
+  Users,
+  Hash,
+  History,
+  ChartColumn,
+  Check,
+  Camera,
+  Link2,
+  ScanLine,
+  Wifi,
+} from "lucide-react-native";
 import * as Haptics from "expo-haptics";
+import * as ImagePicker from "expo-image-picker";
 import Animated, { FadeInDown, FadeInUp, Layout } from "react-native-reanimated";
 import { Colors } from "@/constants/colors";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { useProfiles } from "@/hooks/useProfiles";
+import { useSavedGame } from "@/hooks/useSavedGame";
+import { useSessionStore } from "@/hooks/useSessionStore";
+import { BOT_DIFFICULTIES, BOT_INFO, type BotDifficulty, createBotName } from "@/lib/bots";
+import { findProfileByName, normalizeName, type PlayerProfile } from "@/lib/profiles";
+import { parseRoundCode } from "@/lib/rng";
+import { type InviteParams, inviteParamsSchema } from "@/lib/session";
 
 export default function SetupScreen() {
   const router = useRouter();
+  const params = useLocalSearchParams<{ players?: string; mines?: string; seed?: string }>();
   const colorScheme = useColorScheme();
   const theme = Colors[colorScheme ?? "light"];
 
+  const [invite, setInvite] = useState<InviteParams | null>(null);
   const [playerName, setPlayerName] = useState("");
-  const [players, setPlayers] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [roundCode, setRoundCode] = useState("");
+  const { savedGame, clearGame } = useSavedGame();
+  const resumeSession = useSessionStore((store) => store.resumeSession);
+  const {
+    profiles,
+    selectedIds,
+    selectedProfiles,
+    addProfile,
+    renameProfile,
+    removeProfile,
+    toggleSelected,
+    selectPlayers,
+    setAvatar,
+    isLoaded,
+  } = useProfiles();
+  const [bots, setBots] = useState<{ name: string; difficulty: BotDifficulty }[]>([]);
+  const humans = selectedProfiles.map((profile) => profile.name);
+  const players = [...humans, ...bots.map((bot) => bot.name)];
+  const canStart = humans.length >= 1 && players.length >= 2;
+
+  useEffect(() => {
+    if (!isLoaded || !params.players) return;
+    const parsed = inviteParamsSchema({
+      players: params.players,
+      mines: params.mines,
+      seed: params.seed,
+    });
+    if (!parsed.ok) return;
+    selectPlayers(parsed.value.players);
+    setBots([]);
+    setRoundCode(parsed.value.seed ?? "");
+    setInvite(parsed.value);
+  }, [isLoaded, params.players, params.mines, params.seed, selectPlayers]);
 
   const addPlayer = () => {
     if (!playerName.trim()) return;
-    if (players.includes(playerName.trim())) {
+    const isBotName = bots.some((bot) => normalizeName(bot.name) === normalizeName(playerName));
+    if (isBotName || !addProfile(playerName)) {
       Alert.alert("Duplicate Name", "Player already exists!");
       return;
     }
-    setPlayers([...players, playerName.trim()]);
     setPlayerName("");
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
-  const removePlayer = (index: number) => {
-    const newPlayers = [...players];
-    newPlayers.splice(index, 1);
-    setPlayers(newPlayers);
+  const addBot = () => {
+    setBots((prev) => [
+      ...prev,
+      {
+        name: createBotName([
+          ...profiles.map((profile) => profile.name),
+          ...prev.map((bot) => bot.name),
+        ]),
+        difficulty: "normal",
+      },
+    ]);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
+  const cycleBotDifficulty = (name: string) => {
+    setBots((prev) =>
+      prev.map((bot) =>
+        bot.name === name
+          ? {
+              ...bot,
+              difficulty:
+                BOT_DIFFICULTIES[
+                  (BOT_DIFFICULTIES.indexOf(bot.difficulty) + 1) % BOT_DIFFICULTIES.length
+                ],
+            }
+          : bot
+      )
+    );
+    Haptics.selectionAsync();
+  };
+
+  const removeBot = (name: string) => {
+    setBots((prev) => prev.filter((bot) => bot.name !== name));
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const togglePlayer = (id: string) => {
+    toggleSelected(id);
+    Haptics.selectionAsync();
+  };
+
+  const renamePlayer = (profile: PlayerProfile, name: string) => {
+    setEditingId(null);
+    if (!name.trim() || name.trim() === profile.name) return;
+    const isBotName = bots.some((bot) => normalizeName(bot.name) === normalizeName(name));
+    if (isBotName || !renameProfile(profile.id, name)) {
+      Alert.alert("Duplicate Name", "Player already exists!");
+      return;
+    }
+    Haptics.selectionAsync();
+  };
+
+  const removePlayer = (profile: PlayerProfile) => {
+    Alert.alert("Remove Player", `Delete ${profile.name} from the saved roster?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () => {
+          removeProfile(profile.id);
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        },
+      },
+    ]);
+  };
+
+  const pickAvatar = async (profile: PlayerProfile) => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.5,
+    });
+    if (!result.canceled && result.assets[0]) {
+      setAvatar(profile.id, result.assets[0].uri);
+    }
+  };
+
   const startGame = () => {
-    if (players.length < 2) {
-      Alert.alert("Not enough players", "Please add at least 2 players!");
+    if (!canStart) {
+      Alert.alert(
+        "Not enough players",
+        "Please add at least 2 players, bots included, with at least one person!"
+      );
+      return;
+    }
+    if (bots.some((bot) => findProfileByName(selectedProfiles, bot.name))) {
+      Alert.alert("Duplicate Name", "A bot shares its name with a player!");
+      return;
+    }
+    const code = roundCode.trim();
+    if (code && parseRoundCode(code) === null) {
+      Alert.alert("Invalid Round Code", "Round codes are 6 letters or digits.");
       return;
     }
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const botParams = Object.fromEntries(bots.map((bot) => [bot.name, bot.difficulty]));
     router.push({
-      pathname: "/game",
-      params: { players: JSON.stringify(players) },
+      pathname: "/settings",
+      params: {
+        players: JSON.stringify(players),
+        bots: JSON.stringify(botParams),
+        ...(code ? { code } : {}),
+        ...(invite?.mines ? { mines: String(invite.mines) } : {}),
+      },
     });
   };
 
+  const resumeGame = () => {
+    if (!savedGame) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    router.push({ pathname: "/game", params: { session: resumeSession(savedGame) } });
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
       <KeyboardAvoidingView
@@ -63,16 +216,111 @@ export default function SetupScreen() {
         style={styles.content}
       >
         <Animated.View entering={FadeInDown.delay(100)} style={styles.header}>
+          <TouchableOpacity
+            onPress={() => router.push("/join")}
+            style={[styles.joinButton, { backgroundColor: theme.card }]}
+            accessibilityRole="button"
+            accessibilityLabel="Join a game"
+          >
+            <Wifi size={22} color={theme.text} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push("/import")}
+            style={[styles.importButton, { backgroundColor: theme.card }]}
+            accessibilityRole="button"
+            accessibilityLabel="Import setup"
+          >
+            <ScanLine size={22} color={theme.text} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push("/history")}
+            style={[styles.historyButton, { backgroundColor: theme.card }]}
+            accessibilityRole="button"
+            accessibilityLabel="History"
+          >
+            <ChartColumn size={22} color={theme.text} />
+          </TouchableOpacity>
           <View style={[styles.iconContainer, { backgroundColor: theme.iconBackground }]}>
             <Users size={32} color={theme.text} />
           </View>
           <Text style={[styles.title, { color: theme.text }]}>Who&apos;s Playing?</Text>
           <Text style={[styles.subtitle, { color: theme.textSecondary }]}
           >
-            Add friends to start the slap game
+            Add friends and tick who&apos;s playing tonight
           </Text>
         </Animated.View>
 
+        {invite && (
+          <Animated.View
+            entering={FadeInDown.delay(150)}
+            style={[
+              styles.resumeCard,
+              { backgroundColor: theme.card, borderColor: theme.primary },
+            ]}
+          >
+            <Link2 size={24} color={theme.primary} />
+            <View style={styles.resumeText}>
+              <Text style={[styles.resumeTitle, { color: theme.text }]}>Invite loaded</Text>
+              <Text
+                style={[styles.resumeDetail, { color: theme.textSecondary }]}
+                numberOfLines={2}
+              >
+                {[
+                  `${invite.players.length} players`,
+                  invite.mines ? `${invite.mines} mines` : null,
+                  invite.seed ? `Round ${invite.seed.toUpperCase()}` : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+                . Check who&apos;s playing, then start.
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => setInvite(null)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityRole="button"
+              accessibilityLabel="Dismiss invite"
+            >
+              <X size={20} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </Animated.View>
+        )}
+
+        {savedGame && (
+          <Animated.View
+            entering={FadeInDown.delay(150)}
+            style={[
+              styles.resumeCard,
+              { backgroundColor: theme.card, borderColor: theme.primary },
+            ]}
+          >
+            <TouchableOpacity
+              style={styles.resumeBody}
+              onPress={resumeGame}
+              accessibilityRole="button"
+            >
+              <History size={24} color={theme.primary} />
+              <View style={styles.resumeText}>
+                <Text style={[styles.resumeTitle, { color: theme.text }]}>Resume game</Text>
+                <Text
+                  style={[styles.resumeDetail, { color: theme.textSecondary }]}
+                  numberOfLines={1}
+                >
+                  Round {savedGame.state.round} · {savedGame.state.players.join(", ")}
+                </Text>
+              </View>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={clearGame}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityRole="button"
+              accessibilityLabel="Discard saved game"
+            >
+              <X size={20} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </Animated.View>
+        )}
+
         <View style={styles.inputContainer}>
           <TextInput
             style={[
@@ -98,68 +346,198 @@ export default function SetupScreen() {
             ]}
             onPress={addPlayer}
             disabled={!playerName.trim()}
+            accessibilityRole="button"
+            accessibilityLabel="Add player"
           >
             <Plus size={24} color={theme.background} />
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: theme.card }]}
+            onPress={addBot}
+            accessibilityRole="button"
+            accessibilityLabel="Add bot"
+          >
+            <Bot size={24} color={theme.text} />
+          </TouchableOpacity>
         </View>
 
         <FlatList
-          data={players}
-          keyExtractor={(item) => item}
+          data={profiles}
+          keyExtractor={(item) => item.id}
           style={styles.list}
           contentContainerStyle={styles.listContent}
-          renderItem={({ item, index }) => (
-            <Animated.View
-              entering={FadeInUp}
-              layout={Layout.springify()}
-              style={[
-                styles.playerCard,
-                {
-                  backgroundColor: theme.card,
-                  borderColor: theme.border,
-                },
-              ]}
-            >
-              <Text style={[styles.playerName, { color: theme.text }]}>{item}</Text>
-              <TouchableOpacity
-                onPress={() => removePlayer(index)}
-                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          renderItem={({ item }) => {
+            const isSelected = selectedIds.includes(item.id);
+            return (
+              <Animated.View
+                entering={FadeInUp}
+                layout={Layout.springify()}
+                style={[
+                  styles.playerCard,
+                  {
+                    backgroundColor: theme.card,
+                    borderColor: isSelected ? item.color : theme.border,
+                  },
+                ]}
               >
-                <X size={20} color={theme.danger} />
-              </TouchableOpacity>
-            </Animated.View>
-          )}
+                <TouchableOpacity
+                  onPress={() => pickAvatar(item)}
+                  style={styles.avatarButton}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Change ${item.name}'s photo`}
+                >
+                  <PlayerAvatar name={item.name} profile={item} size={40} />
+                  <View style={[styles.cameraBadge, { backgroundColor: theme.card }]}>
+                    <Camera size={12} color={theme.textSecondary} />
+                  </View>
+                </TouchableOpacity>
+                {editingId === item.id ? (
+                  <TextInput
+                    style={[
+                      styles.playerName,
+                      styles.renameInput,
+                      { color: theme.text, borderColor: item.color },
+                    ]}
+                    defaultValue={item.name}
+                    autoFocus
+                    selectTextOnFocus
+                    returnKeyType="done"
+                    onSubmitEditing={(event) => renamePlayer(item, event.nativeEvent.text)}
+                    onBlur={() => setEditingId(null)}
+                    accessibilityLabel={`New name for ${item.name}`}
+                  />
+                ) : (
+                  <TouchableOpacity
+                    style={styles.playerToggle}
+                    onPress={() => togglePlayer(item.id)}
+                    onLongPress={() => setEditingId(item.id)}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: isSelected }}
+                    accessibilityHint="Long press to rename"
+                  >
+                    <Text
+                      style={[
+                        styles.playerName,
+                        { color: isSelected ? theme.text : theme.textSecondary },
+                      ]}
+                    >
+                      {item.name}
+                    </Text>
+                    <View
+                      style={[
+                        styles.checkbox,
+                        { borderColor: isSelected ? item.color : theme.border },
+                        isSelected && { backgroundColor: item.color },
+                      ]}
+                    >
+                      {isSelected && <Check size={16} color="#FFF" />}
+                    </View>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  onPress={() => removePlayer(item)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Remove ${item.name}`}
+                >
+                  <X size={20} color={theme.danger} />
+                </TouchableOpacity>
+              </Animated.View>
+            );
+          }}
           ListEmptyComponent={
             <Text style={[styles.emptyText, { color: theme.textSecondary }]}
             >
               No players added yet
             </Text>
           }
+          ListFooterComponent={
+            <View style={styles.listContent}>
+              {bots.map((bot) => (
+                <Animated.View
+                  key={bot.name}
+                  entering={FadeInUp}
+                  layout={Layout.springify()}
+                  style={[
+                    styles.playerCard,
+                    { backgroundColor: theme.card, borderColor: theme.border },
+                  ]}
+                >
+                  <View style={[styles.botAvatar, { backgroundColor: theme.iconBackground }]}>
+                    <Bot size={22} color={theme.text} />
+                  </View>
+                  <View style={styles.playerToggle}>
+                    <Text style={[styles.playerName, { color: theme.text }]}>{bot.name}</Text>
+                    <TouchableOpacity
+                      onPress={() => cycleBotDifficulty(bot.name)}
+                      style={[styles.difficultyPill, { backgroundColor: theme.cardSecondary }]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`${bot.name}: ${BOT_INFO[bot.difficulty].label} bot`}
+                    >
+                      <Text style={[styles.difficultyText, { color: theme.primary }]}>
+                        {BOT_INFO[bot.difficulty].label}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => removeBot(bot.name)}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Remove ${bot.name}`}
+                  >
+                    <X size={20} color={theme.danger} />
+                  </TouchableOpacity>
+                </Animated.View>
+              ))}
+            </View>
+          }
         />
 
         <View style={styles.footer}>
+          <View
+            style={[
+              styles.codeContainer,
+              { backgroundColor: theme.inputBackground, borderColor: theme.border },
+            ]}
+          >
+            <Hash size={18} color={theme.textSecondary} />
+            <TextInput
+              style={[styles.codeInput, { color: theme.text }]}
+              placeholder="Round code (optional)"
+              placeholderTextColor={theme.textSecondary}
+              value={roundCode}
+              onChangeText={setRoundCode}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={7}
+              returnKeyType="go"
+              onSubmitEditing={startGame}
+            />
+          </View>
           <TouchableOpacity
             style={[
               styles.startButton,
               { backgroundColor: theme.primary, shadowColor: theme.primary },
-              players.length < 2 && { backgroundColor: theme.border, shadowOpacity: 0 },
+              !canStart && { backgroundColor: theme.border, shadowOpacity: 0 },
             ]}
             onPress={startGame}
-            disabled={players.length < 2}
+            disabled={!canStart}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: !canStart }}
           >
             <Text
               style={[
                 styles.startButtonText,
                 { color: theme.primaryForeground },
-                players.length < 2 && { color: theme.textSecondary },
+                !canStart && { color: theme.textSecondary },
               ]}
             >
-              Start Game
+              Next
             </Text>
             <Play
               size={20}
-              color={players.length < 2 ? theme.textSecondary : theme.primaryForeground}
-              fill={players.length < 2 ? theme.textSecondary : theme.primaryForeground}
+              color={canStart ? theme.primaryForeground : theme.textSecondary}
+              fill={canStart ? theme.primaryForeground : theme.textSecondary}
             />
           </TouchableOpacity>
         </View>
@@ -180,6 +558,51 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     alignItems: "center",
   },
+  historyButton: {
+    position: "absolute",
+    top: 0,
+    right: 0,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  joinButton: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  importButton: {
+    position: "absolute",
+    top: 0,
+    left: 56,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
   iconContainer: {
     width: 64,
     height: 64,
@@ -198,6 +621,32 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: "center",
   },
+  resumeCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 2,
+    marginBottom: 24,
+    gap: 12,
+  },
+  resumeBody: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  resumeText: {
+    flex: 1,
+  },
+  resumeTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  resumeDetail: {
+    fontSize: 14,
+    marginTop: 2,
+  },
   inputContainer: {
     flexDirection: "row",
     marginBottom: 24,
@@ -236,17 +685,68 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     padding: 16,
     borderRadius: 16,
-    borderWidth: 1,
+    borderWidth: 2,
     shadowColor: "#000",
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.05,
     shadowRadius: 4,
     elevation: 2,
   },
+  avatarButton: {
+    marginRight: 12,
+  },
+  cameraBadge: {
+    position: "absolute",
+    right: -4,
+    bottom: -4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  botAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 12,
+  },
+  difficultyPill: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  difficultyText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  playerToggle: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginRight: 16,
+  },
+  checkbox: {
+    width: 26,
+    height: 26,
+    borderRadius: 8,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
   playerName: {
     fontSize: 18,
     fontWeight: "600",
   },
+  renameInput: {
+    flex: 1,
+    marginRight: 16,
+    paddingVertical: 4,
+    borderBottomWidth: 2,
+  },
   emptyText: {
     textAlign: "center",
     fontSize: 16,
@@ -254,6 +754,21 @@ const styles = StyleSheet.create({
   },
   footer: {
     paddingTop: 16,
+    gap: 12,
+  },
+  codeContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: 48,
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  codeInput: {
+    flex: 1,
+    fontSize: 16,
+    letterSpacing: 2,
   },
   startButton: {
     flexDirection: "row",
@@ -0,0 +1,216 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  useColorScheme,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ArrowLeft, LogIn, Server, Wifi } from "lucide-react-native";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { Colors } from "@/constants/colors";
+import { DEFAULT_RELAY_URL } from "@/lib/network";
+import { parseRoundCode, toRoundCode } from "@/lib/rng";
+
+export default function JoinScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const [roomCode, setRoomCode] = useState("");
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+
+  const joinRoom = () => {
+    const parsed = parseRoundCode(roomCode.trim());
+    if (parsed === null) {
+      Alert.alert("Invalid Room Code", "Room codes are 6 letters or digits.");
+      return;
+    }
+    if (!/^wss?:\/\/.+/.test(relayUrl.trim())) {
+      Alert.alert("Invalid Relay", "The relay address starts with ws:// or wss://.");
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    router.push({
+      pathname: "/remote",
+      params: { room: toRoundCode(parsed), relay: relayUrl.trim() },
+    });
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[styles.iconButton, { backgroundColor: theme.card }]}
+        >
+          <ArrowLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.content}
+      >
+        <Animated.View entering={FadeInDown.delay(100)} style={styles.header}>
+          <View style={[styles.iconContainer, { backgroundColor: theme.iconBackground }]}>
+            <Wifi size={32} color={theme.text} />
+          </View>
+          <Text style={[styles.title, { color: theme.text }]}>Join a Game</Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            Enter the room code shown on the host&apos;s phone
+          </Text>
+        </Animated.View>
+
+        <TextInput
+          style={[
+            styles.codeInput,
+            {
+              backgroundColor: theme.inputBackground,
+              borderColor: theme.border,
+              color: theme.text,
+            },
+          ]}
+          placeholder="ROOM CODE"
+          placeholderTextColor={theme.textSecondary}
+          value={roomCode}
+          onChangeText={setRoomCode}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          maxLength={7}
+          returnKeyType="go"
+          onSubmitEditing={joinRoom}
+        />
+
+        <View
+          style={[
+            styles.relayContainer,
+            { backgroundColor: theme.inputBackground, borderColor: theme.border },
+          ]}
+        >
+          <Server size={18} color={theme.textSecondary} />
+          <TextInput
+            style={[styles.relayInput, { color: theme.text }]}
+            placeholder="ws://192.168.1.10:8787"
+            placeholderTextColor={theme.textSecondary}
+            value={relayUrl}
+            onChangeText={setRelayUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+        </View>
+      </KeyboardAvoidingView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.joinButton,
+            { backgroundColor: theme.primary, shadowColor: theme.primary },
+          ]}
+          onPress={joinRoom}
+        >
+          <Text style={[styles.joinButtonText, { color: theme.primaryForeground }]}>Join</Text>
+          <LogIn size={20} color={theme.primaryForeground} />
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  topBar: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  iconButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+    gap: 12,
+  },
+  header: {
+    marginBottom: 20,
+    alignItems: "center",
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "800",
+    marginBottom: 8,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: "center",
+  },
+  codeInput: {
+    height: 64,
+    borderRadius: 16,
+    borderWidth: 1,
+    fontSize: 28,
+    fontWeight: "800",
+    letterSpacing: 6,
+    textAlign: "center",
+  },
+  relayContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: 48,
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  relayInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  footer: {
+    padding: 24,
+    paddingTop: 8,
+  },
+  joinButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    height: 60,
+    borderRadius: 20,
+    gap: 12,
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  joinButtonText: {
+    fontSize: 20,
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,25 @@
+import React from "react";
+import { useColorScheme } from "react-native";
+import { Redirect, useLocalSearchParams } from "expo-router";
+import { RouteError } from "@/components/RouteError";
+import { Colors } from "@/constants/colors";
+import { inviteParamsSchema, toInviteQuery } from "@/lib/session";
+
+export default function PlayRoute() {
+  const params = useLocalSearchParams();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const parsed = inviteParamsSchema(params);
+
+  if (!parsed.ok) {
+    return (
+      <RouteError
+        title="Broken invite"
+        message="This invite link couldn't be read. Ask whoever sent it for a fresh one."
+        detail={parsed.error}
+        theme={theme}
+      />
+    );
+  }
+  return <Redirect href={{ pathname: "/", params: toInviteQuery(parsed.value) }} />;
+}
@@ -0,0 +1,480 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  useWindowDimensions,
+  Modal,
+  useColorScheme,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ArrowLeft, Check, Hand, SkipForward, Wifi, WifiOff } from "lucide-react-native";
+import * as Haptics from "expo-haptics";
+import Animated, { ZoomIn } from "react-native-reanimated";
+import { Colors } from "@/constants/colors";
+import { CommitmentCard } from "@/components/CommitmentCard";
+import { gameStyles } from "@/components/gameStyles";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { PowerUpToast, type PowerUpToastItem } from "@/components/PowerUpToast";
+import { RiskMeter } from "@/components/RiskMeter";
+import { RouteError } from "@/components/RouteError";
+import {
+  getGridLayout,
+  GRID_PADDING,
+  MAX_GRID_WIDTH,
+  TileComponent,
+} from "@/components/TileComponent";
+import { TurnTimerBar } from "@/components/TurnTimerBar";
+import { WinnerModal } from "@/components/WinnerModal";
+import { useProfiles } from "@/hooks/useProfiles";
+import { useRelay } from "@/hooks/useRelay";
+import { formatHash } from "@/lib/fairness";
+import {
+  createClientId,
+  DEFAULT_RELAY_URL,
+  type PublicState,
+  type RelayMessage,
+  recordCommitment,
+  type RemoteAction,
+} from "@/lib/network";
+import { remoteParamsSchema } from "@/lib/session";
+
+export default function RemoteRoute() {
+  const params = useLocalSearchParams();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const parsed = remoteParamsSchema(params);
+
+  if (!parsed.ok) {
+    return (
+      <RouteError
+        title="Broken room link"
+        message="This link doesn't point to a room. Ask the host for a fresh code."
+        detail={parsed.error}
+        theme={theme}
+      />
+    );
+  }
+  return <RemoteScreen room={parsed.value.room} relay={parsed.value.relay} />;
+}
+
+function RemoteScreen({ room, relay }: { room: string; relay?: string }) {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const { width: windowWidth } = useWindowDimensions();
+  const availableWidth = Math.min(windowWidth - GRID_PADDING * 2, MAX_GRID_WIDTH);
+  const [availableHeight, setAvailableHeight] = useState(0);
+  const { getProfile } = useProfiles();
+
+  const [clientId] = useState(createClientId);
+  const [game, setGame] = useState<PublicState | null>(null);
+  const [seated, setSeated] = useState<string[]>([]);
+  const [seat, setSeat] = useState<string | null>(null);
+  const [heldSeat, setHeldSeat] = useState<string | null>(null);
+  const [isHostOnline, setIsHostOnline] = useState(false);
+  const [toast, setToast] = useState<PowerUpToastItem | null>(null);
+  const [commitments, setCommitments] = useState<Record<number, string>>({});
+  const [turnDeadline, setTurnDeadline] = useState<number | null>(null);
+
+  const handleRelayMessage = (message: RelayMessage) => {
+    switch (message.type) {
+      case "joined":
+        setIsHostOnline(message.hostOnline);
+        break;
+      case "hostOnline":
+      case "hostOffline":
+        setIsHostOnline(message.type === "hostOnline");
+        break;
+      case "state": {
+        const event = message.state.lastEvent;
+        if (event?.type === "pick" && event.at !== game?.lastEvent?.at) {
+          if (event.shielded) {
+            setToast({ id: event.at, kind: "shield", message: "Shield blocked the mine!" });
+          } else if (event.powerUp) {
+            setToast({ id: event.at, kind: event.powerUp });
+          }
+        }
+        setIsHostOnline(true);
+        setCommitments((current) => recordCommitment(current, message.state));
+        setTurnDeadline(
+          message.state.turnMsLeft === null ? null : Date.now() + message.state.turnMsLeft
+        );
+        setGame(message.state);
+        setSeated(message.seated);
+        break;
+      }
+      case "seat":
+        setHeldSeat(message.player);
+        if (!message.player) setSeat(null);
+        break;
+    }
+  };
+
+  const { status, send } = useRelay({
+    url: relay ?? DEFAULT_RELAY_URL,
+    room,
+    role: "guest",
+    clientId,
+    onMessage: handleRelayMessage,
+  });
+
+  useEffect(() => {
+    if (status === "open" && isHostOnline && seat) send({ type: "claim", player: seat });
+  }, [status, isHostOnline, seat, send]);
+
+  const sendAction = (action: RemoteAction) => {
+    if (!seat) return;
+    send({ type: "action", player: seat, action });
+    Haptics.selectionAsync();
+  };
+
+  const currentPlayer = game?.players[game.currentPlayerIndex];
+  const isMyTurn = !!heldSeat && heldSeat === currentPlayer;
+  const isConnected = status === "open" && isHostOnline;
+  const mySkips = seat && game ? (game.inventory[seat]?.skip ?? 0) : 0;
+
+  const header = (
+    <View style={gameStyles.header}>
+      <TouchableOpacity
+        onPress={() => router.back()}
+        style={[gameStyles.iconButton, { backgroundColor: theme.card }]}
+      >
+        <ArrowLeft size={24} color={theme.text} />
+      </TouchableOpacity>
+      <View style={gameStyles.turnContainer}>
+        <Text style={[gameStyles.turnLabel, { color: theme.textSecondary }]}>
+          {isMyTurn ? "Your Turn" : "Current Turn"}
+        </Text>
+        <View style={gameStyles.currentPlayerRow}>
+          {currentPlayer ? (
+            <PlayerAvatar name={currentPlayer} profile={getProfile(currentPlayer)} size={28} />
+          ) : null}
+          <Text style={[gameStyles.currentPlayer, { color: theme.text }]}>
+            {currentPlayer ?? "Waiting…"}
+          </Text>
+        </View>
+        <View style={styles.roomRow}>
+          {isConnected ? (
+            <Wifi size={12} color={theme.success} />
+          ) : (
+            <WifiOff size={12} color={theme.danger} />
+          )}
+          <Text style={[styles.roomCode, { color: theme.textSecondary }]}>
+            Room {room}
+          </Text>
+        </View>
+        {game?.commitment ? (
+          <Text style={[styles.roomCode, { color: theme.textSecondary }]}>
+            Commit {formatHash(game.commitment)}
+          </Text>
+        ) : null}
+      </View>
+      <View style={styles.iconSpacer} />
+    </View>
+  );
+
+  const banner = !isConnected ? (
+    <View style={[styles.banner, { backgroundColor: theme.cardSecondary }]}>
+      <Text style={[styles.bannerText, { color: theme.textSecondary }]}>
+        {status === "refused"
+          ? "This device was refused by the relay"
+          : status !== "open"
+            ? "Reconnecting to the relay…"
+            : "Waiting for the host…"}
+      </Text>
+    </View>
+  ) : game?.isPlacing ? (
+    <View style={[styles.banner, { backgroundColor: theme.cardSecondary }]}>
+      <Text style={[styles.bannerText, { color: theme.textSecondary }]}>
+        {game.hider} is hiding the mines…
+      </Text>
+    </View>
+  ) : null;
+
+  if (!game || !seat) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        {header}
+        {banner}
+        <ScrollView contentContainerStyle={styles.seatList}>
+          <Text style={[styles.seatTitle, { color: theme.text }]}>Who are you?</Text>
+          {game?.players
+            .filter((player) => !game.bots[player])
+            .map((player) => {
+              const isTaken = seated.includes(player) && player !== heldSeat;
+              return (
+                <TouchableOpacity
+                  key={player}
+                  onPress={() => setSeat(player)}
+                  disabled={isTaken}
+                  style={[
+                    styles.seatCard,
+                    { backgroundColor: theme.card, borderColor: theme.border },
+                    isTaken && styles.seatTaken,
+                  ]}
+                >
+                  <PlayerAvatar name={player} profile={getProfile(player)} size={36} />
+                  <Text style={[styles.seatName, { color: theme.text }]}>{player}</Text>
+                  {isTaken ? (
+                    <Text style={[styles.seatHint, { color: theme.textSecondary }]}>
+                      Taken
+                    </Text>
+                  ) : (
+                    <Check size={20} color={theme.textSecondary} />
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          {!game && (
+            <Text style={[styles.seatHint, { color: theme.textSecondary }]}>
+              Waiting for the host to share the board
+            </Text>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  const { gap, tileSize, gridWidth } = getGridLayout(
+    availableWidth,
+    availableHeight,
+    game.settings.rows,
+    game.settings.columns
+  );
+  const canPickHere =
+    isMyTurn && isConnected && !game.isGameOver && !game.isPlacing && game.picksLeft > 0;
+  const endTurnDisabled = !isMyTurn || !isConnected || !game.canEndTurn;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      {header}
+      {banner}
+
+      <View style={[gameStyles.statsContainer, { backgroundColor: theme.card }]}>
+        <View style={gameStyles.statBox}>
+          <Text style={[gameStyles.statValue, { color: theme.primary }]}>{game.picksLeft}</Text>
+          <Text style={[gameStyles.statLabel, { color: theme.textSecondary }]}>Picks Left</Text>
+        </View>
+        <View style={[gameStyles.divider, { backgroundColor: theme.border }]} />
+        <View style={gameStyles.statBox}>
+          <Text style={[gameStyles.statValue, { color: theme.primary }]}>
+            {game.settings.mineCount}
+          </Text>
+          <Text style={[gameStyles.statLabel, { color: theme.textSecondary }]}>Hidden Mines</Text>
+        </View>
+        {game.settings.banking ? (
+          <>
+            <View style={[gameStyles.divider, { backgroundColor: theme.border }]} />
+            <View style={gameStyles.statBox}>
+              <Text style={[gameStyles.statValue, { color: theme.primary }]}>{game.pot}</Text>
+              <Text style={[gameStyles.statLabel, { color: theme.textSecondary }]}>Pot</Text>
+            </View>
+          </>
+        ) : null}
+        {game.settings.riskMeter ? (
+          <RiskMeter odds={game.riskOdds} picksLeft={game.picksLeft} theme={theme} />
+        ) : null}
+      </View>
+
+      {game.settings.turnSeconds > 0 && (
+        <TurnTimerBar
+          seconds={game.settings.turnSeconds}
+          turnKey={`${game.round}-${game.turn}`}
+          active={turnDeadline !== null}
+          deadline={turnDeadline}
+          theme={theme}
+        />
+      )}
+
+      <View
+        style={gameStyles.gridContainer}
+        onLayout={(event) =>
+          setAvailableHeight(event.nativeEvent.layout.height - GRID_PADDING)
+        }
+      >
+        <PowerUpToast toast={toast} onHide={() => setToast(null)} theme={theme} />
+        <View style={[gameStyles.grid, { width: gridWidth, gap }]}>
+          {game.grid.map((tile) => (
+            <TileComponent
+              key={tile.id}
+              tile={tile}
+              onPress={() => sendAction({ type: "pick", index: tile.id })}
+              disabled={!canPickHere || tile.isRevealed}
+              theme={theme}
+              tileSize={tileSize}
+              columns={game.settings.columns}
+              showCount={game.settings.proximity}
+            />
+          ))}
+        </View>
+      </View>
+
+      <View style={gameStyles.footer}>
+        {mySkips > 0 && (
+          <TouchableOpacity
+            onPress={() => sendAction({ type: "useSkip" })}
+            disabled={!isMyTurn || !game.canUseSkip}
+            style={[styles.skipButton, { backgroundColor: theme.powerUp }]}
+          >
+            <SkipForward size={22} color="#FFF" />
+            <Text style={styles.skipText}>×{mySkips}</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[
+            gameStyles.endTurnButton,
+            { backgroundColor: theme.text },
+            endTurnDisabled && { backgroundColor: theme.border },
+          ]}
+          onPress={() => sendAction({ type: "endTurn" })}
+          disabled={endTurnDisabled}
+        >
+          <Text
+            style={[
+              gameStyles.endTurnText,
+              { color: theme.background },
+              endTurnDisabled && { color: theme.textSecondary },
+            ]}
+          >
+            {game.settings.banking ? `Bank ${game.pot}` : "End Turn"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <Modal visible={!!game.slappedPlayer} transparent animationType="fade">
+        <View style={gameStyles.modalOverlay}>
+          <Animated.View
+            entering={ZoomIn.duration(400)}
+            style={[gameStyles.slapCard, { backgroundColor: theme.card }]}
+          >
+            <View style={[gameStyles.slapIconContainer, { backgroundColor: theme.danger }]}>
+              <Hand size={64} color="#FFF" />
+            </View>
+            <Text style={[gameStyles.slapTitle, { color: theme.danger }]}>
+              {game.slappedPlayer === seat ? "You get slapped" : "Slapped!"}
+            </Text>
+            <Text style={[gameStyles.slapSubtitle, { color: theme.textSecondary }]}>
+              <Text style={[gameStyles.slapName, { color: theme.text }]}>
+                {game.slappedPlayer}
+              </Text>{" "}
+              hit the mine!
+            </Text>
+            {game.salt && game.layout && commitments[game.round] ? (
+              <CommitmentCard
+                key={commitments[game.round]}
+                commitment={commitments[game.round]}
+                salt={game.salt}
+                layout={game.layout}
+                theme={theme}
+              />
+            ) : game.salt ? (
+              <Text style={[styles.commitNote, { color: theme.textSecondary }]}>
+                You joined after this board was dealt, so there is no commitment to check.
+              </Text>
+            ) : null}
+            <TouchableOpacity
+              style={[gameStyles.continueButton, { backgroundColor: theme.text }]}
+              onPress={() => sendAction({ type: "dismissSlap" })}
+            >
+              <Text style={[gameStyles.continueText, { color: theme.background }]}>
+                Next Round
+              </Text>
+            </TouchableOpacity>
+          </Animated.View>
+        </View>
+      </Modal>
+
+      <WinnerModal
+        winner={game.winner}
+        eliminated={game.eliminated}
+        subtitle={
+          game.settings.banking ? `First to ${game.settings.targetScore} points` : undefined
+        }
+        onExit={() => router.dismissTo("/")}
+        theme={theme}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  iconSpacer: {
+    width: 44,
+  },
+  roomRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 2,
+  },
+  roomCode: {
+    fontSize: 12,
+    fontWeight: "600",
+    letterSpacing: 2,
+  },
+  banner: {
+    marginHorizontal: 24,
+    marginBottom: 16,
+    borderRadius: 12,
+    padding: 12,
+    alignItems: "center",
+  },
+  bannerText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  seatList: {
+    padding: 24,
+    gap: 12,
+  },
+  seatTitle: {
+    fontSize: 22,
+    fontWeight: "800",
+    marginBottom: 4,
+  },
+  seatCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 12,
+  },
+  seatTaken: {
+    opacity: 0.5,
+  },
+  seatName: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  seatHint: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+  skipButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 4,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+  },
+  skipText: {
+    color: "#FFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  commitNote: {
+    fontSize: 14,
+    textAlign: "center",
+    marginBottom: 24,
+  },
+});
@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  useWindowDimensions,
+  useColorScheme,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  ArrowLeft,
+  Pause,
+  Play,
+  RotateCcw,
+  StepBack,
+  StepForward,
+} from "lucide-react-native";
+import { Colors } from "@/constants/colors";
+import { gameStyles } from "@/components/gameStyles";
+import { RouteError } from "@/components/RouteError";
+import {
+  getGridLayout,
+  GRID_PADDING,
+  MAX_GRID_WIDTH,
+  TileComponent,
+} from "@/components/TileComponent";
+import { useReplays } from "@/hooks/useReplays";
+import { describeEvent, getReplayFrame } from "@/lib/replay";
+import { replayParamsSchema } from "@/lib/session";
+
+const STEP_INTERVAL = 900;
+
+export default function ReplayRoute() {
+  const params = useLocalSearchParams();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const parsed = replayParamsSchema(params);
+
+  if (!parsed.ok) {
+    return (
+      <RouteError
+        title="Broken replay link"
+        message="This link doesn't point to a replay."
+        detail={parsed.error}
+        theme={theme}
+      />
+    );
+  }
+  return <ReplayScreen id={parsed.value.id} />;
+}
+
+function ReplayScreen({ id }: { id: string }) {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const { width: windowWidth } = useWindowDimensions();
+  const availableWidth = Math.min(windowWidth - GRID_PADDING * 2, MAX_GRID_WIDTH);
+  const [availableHeight, setAvailableHeight] = useState(0);
+
+  const { getReplay } = useReplays();
+  const replay = getReplay(id);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const frame = replay ? getReplayFrame(replay, step) : null;
+  const totalSteps = frame?.totalSteps ?? 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= totalSteps) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setStep((prev) => prev + 1), STEP_INTERVAL);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, step, totalSteps]);
+
+  const togglePlay = () => {
+    if (step >= totalSteps) setStep(0);
+    setIsPlaying((prev) => !prev);
+  };
+
+  const stepBy = (delta: number) => {
+    setIsPlaying(false);
+    setStep((prev) => Math.min(totalSteps, Math.max(0, prev + delta)));
+  };
+
+  const restart = () => {
+    setIsPlaying(false);
+    setStep(0);
+  };
+
+  if (!frame) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={gameStyles.header}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={[gameStyles.iconButton, { backgroundColor: theme.card }]}
+          >
+            <ArrowLeft size={24} color={theme.text} />
+          </TouchableOpacity>
+        </View>
+        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+          This replay is no longer available
+        </Text>
+      </SafeAreaView>
+    );
+  }
+
+  const { gap, tileSize, gridWidth } = getGridLayout(
+    availableWidth,
+    availableHeight,
+    frame.rows,
+    frame.columns
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={gameStyles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[gameStyles.iconButton, { backgroundColor: theme.card }]}
+        >
+          <ArrowLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <Text style={[styles.titleLabel, { color: theme.textSecondary }]}>Replay</Text>
+          <Text style={[styles.title, { color: theme.text }]}>Round {replay?.round}</Text>
+        </View>
+        <View style={styles.iconSpacer} />
+      </View>
+
+      <View style={[styles.captionCard, { backgroundColor: theme.card }]}>
+        <Text style={[styles.caption, { color: theme.text }]}>
+          {describeEvent(frame.event, frame.columns)}
+        </Text>
+        <Text style={[styles.captionMeta, { color: theme.textSecondary }]}>
+          Step {frame.step} of {frame.totalSteps} · +{(frame.elapsed / 1000).toFixed(1)}s
+        </Text>
+      </View>
+
+      <View
+        style={gameStyles.gridContainer}
+        onLayout={(event) =>
+          setAvailableHeight(event.nativeEvent.layout.height - GRID_PADDING)
+        }
+      >
+        <View style={[gameStyles.grid, { width: gridWidth, gap }]}>
+          {frame.grid.map((tile) => (
+            <TileComponent
+              key={tile.id}
+              tile={tile}
+              onPress={() => {}}
+              disabled
+              theme={theme}
+              tileSize={tileSize}
+              columns={frame.columns}
+              showCount={frame.showCount}
+            />
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.controls}>
+        <TouchableOpacity
+          onPress={restart}
+          style={[styles.controlButton, { backgroundColor: theme.card }]}
+        >
+          <RotateCcw size={22} color={theme.text} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => stepBy(-1)}
+          disabled={frame.step === 0}
+          style={[styles.controlButton, { backgroundColor: theme.card }]}
+        >
+          <StepBack size={22} color={frame.step === 0 ? theme.border : theme.text} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={togglePlay}
+          style={[styles.playButton, { backgroundColor: theme.primary }]}
+        >
+          {isPlaying ? (
+            <Pause size={28} color={theme.primaryForeground} />
+          ) : (
+            <Play size={28} color={theme.primaryForeground} fill={theme.primaryForeground} />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => stepBy(1)}
+          disabled={frame.step === totalSteps}
+          style={[styles.controlButton, { backgroundColor: theme.card }]}
+        >
+          <StepForward
+            size={22}
+            color={frame.step === totalSteps ? theme.border : theme.text}
+          />
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  iconSpacer: {
+    width: 44,
+  },
+  titleContainer: {
+    alignItems: "center",
+  },
+  titleLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "800",
+  },
+  captionCard: {
+    marginHorizontal: 24,
+    borderRadius: 20,
+    padding: 16,
+    alignItems: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  caption: {
+    fontSize: 16,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  captionMeta: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  controls: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 16,
+    padding: 24,
+    paddingBottom: 8,
+  },
+  controlButton: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  playButton: {
+    width: 68,
+    height: 68,
+    borderRadius: 34,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  emptyText: {
+    textAlign: "center",
+    fontSize: 16,
+    marginTop: 32,
+  },
+});
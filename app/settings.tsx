@@ -0,0 +1,760 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  Alert,
+  Share,
+  TextInput,
+  useColorScheme,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import * as Linking from "expo-linking";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  ArrowLeft,
+  Minus,
+  Play,
+  Plus,
+  QrCode,
+  Server,
+  Share2,
+  SlidersHorizontal,
+  Wifi,
+} from "lucide-react-native";
+import * as Haptics from "expo-haptics";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { RouteError } from "@/components/RouteError";
+import { SetupQrSheet } from "@/components/SetupQrSheet";
+import { Colors } from "@/constants/colors";
+import { useSessionStore } from "@/hooks/useSessionStore";
+import { DEFAULT_RELAY_URL } from "@/lib/network";
+import { encodeSetupPayload } from "@/lib/payload";
+import { POWER_UP_INFO, POWER_UP_KINDS, type PowerUpKind } from "@/lib/powerups";
+import { parseRoundCode, randomSeed, toRoundCode } from "@/lib/rng";
+import {
+  createSessionConfig,
+  relayUrlSchema,
+  type SetupParams,
+  setupParamsSchema,
+  toInviteQuery,
+} from "@/lib/session";
+import {
+  BOARD_LIMITS,
+  type BooleanSettingKey,
+  DEFAULT_SETTINGS,
+  type GameSettings,
+  type Handicap,
+  type NumericSettingKey,
+  getHandicap,
+  getMaxMines,
+  getMineCap,
+  getMinPicksPerTurn,
+  getPicksPerTurn,
+  getPowerUpCount,
+  normalizeSettings,
+  POWER_UP_SETTING_KEYS,
+} from "@/lib/settings";
+
+type SettingToggle = {
+  key: BooleanSettingKey;
+  label: string;
+  hint: string;
+};
+
+const toggles: SettingToggle[] = [
+  {
+    key: "elimination",
+    label: "Elimination",
+    hint: "Slapped players drop out until one survives",
+  },
+  {
+    key: "proximity",
+    label: "Proximity Numbers",
+    hint: "Safe tiles show how many mines touch them",
+  },
+  {
+    key: "hider",
+    label: "Hider Mode",
+    hint: "Players take turns secretly placing the mines",
+  },
+  {
+    key: "banking",
+    label: "Push Your Luck",
+    hint: "Safe picks fill a pot you bank instead of ending the turn",
+  },
+  {
+    key: "riskMeter",
+    label: "Risk Meter",
+    hint: "Shows the odds that the next tile is a mine",
+  },
+];
+
+const powerUpHints: Record<PowerUpKind, string> = {
+  shield: "Blocks the next mine its finder hits",
+  skip: "Lets its finder pass a turn at any time",
+  double: "Adds extra picks to the current turn",
+  reverse: "Flips the turn order",
+};
+
+function MiniStepper({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+  theme,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  theme: typeof Colors.light;
+}) {
+  return (
+    <View style={styles.miniStepper}>
+      <Text style={[styles.settingHint, { color: theme.textSecondary }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          onPress={() => onChange(value - 1)}
+          disabled={value <= min}
+          style={[
+            styles.controlButton,
+            { backgroundColor: theme.cardSecondary },
+            value <= min && styles.controlDisabled,
+          ]}
+          hitSlop={8}
+        >
+          <Minus size={16} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.miniValue, { color: theme.primary }]}>{value}</Text>
+        <TouchableOpacity
+          onPress={() => onChange(value + 1)}
+          disabled={value >= max}
+          style={[
+            styles.controlButton,
+            { backgroundColor: theme.cardSecondary },
+            value >= max && styles.controlDisabled,
+          ]}
+          hitSlop={8}
+        >
+          <Plus size={16} color={theme.text} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+type SettingRow = {
+  key: NumericSettingKey;
+  label: string;
+  hint: string;
+  min: number;
+  max: number;
+  step?: number;
+  format?: (value: number) => string;
+};
+
+export default function SettingsRoute() {
+  const params = useLocalSearchParams();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const parsed = setupParamsSchema(params);
+
+  if (!parsed.ok) {
+    return (
+      <RouteError
+        title="Broken setup link"
+        message="The players for this game couldn't be read. Add them again from setup."
+        detail={parsed.error}
+        theme={theme}
+      />
+    );
+  }
+  return <SettingsScreen setup={parsed.value} />;
+}
+
+function SettingsScreen({ setup }: { setup: SetupParams }) {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? "light"];
+  const startSession = useSessionStore((store) => store.startSession);
+
+  const [settings, setSettings] = useState<GameSettings>(() => {
+    const initial = setup.settings ?? DEFAULT_SETTINGS;
+    return normalizeSettings({ ...initial, mineCount: setup.mines ?? initial.mineCount });
+  });
+  const [isQrVisible, setIsQrVisible] = useState(false);
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+  const { players } = setup;
+  const maxMines = getMaxMines(settings);
+  const maxPicks = Math.min(BOARD_LIMITS.maxPicksPerTurn, maxMines);
+  const freeTiles = maxMines - settings.mineCount - getPowerUpCount(settings);
+
+  const rows: SettingRow[] = [
+    {
+      key: "rows",
+      label: "Rows",
+      hint: "Tiles from top to bottom",
+      min: BOARD_LIMITS.minSide,
+      max: BOARD_LIMITS.maxRows,
+    },
+    {
+      key: "columns",
+      label: "Columns",
+      hint: "Tiles from left to right",
+      min: BOARD_LIMITS.minSide,
+      max: BOARD_LIMITS.maxColumns,
+    },
+    {
+      key: "picksPerTurn",
+      label: "Picks per Turn",
+      hint: "Most tiles a player can flip",
+      min: 1,
+      max: maxPicks,
+    },
+    {
+      key: "minPicksPerTurn",
+      label: "Picks before End Turn",
+      hint: "Fewest tiles before passing",
+      min: 1,
+      max: settings.picksPerTurn,
+    },
+    {
+      key: "mineCount",
+      label: "Hidden Mines",
+      hint: `Up to ${maxMines} on a ${settings.rows}×${settings.columns} board`,
+      min: 1,
+      max: maxMines,
+    },
+    {
+      key: "mineRampStep",
+      label: "Mine Ramp",
+      hint: "Mines added as a long session goes on",
+      min: 0,
+      max: BOARD_LIMITS.maxMineRampStep,
+      format: (value) => (value ? `+${value}` : "Off"),
+    },
+    ...(settings.mineRampStep
+      ? [
+          {
+            key: "mineRampRounds" as const,
+            label: "Ramp Every",
+            hint: `After each slap or every few rounds, up to ${getMineCap(settings)} mines`,
+            min: 0,
+            max: BOARD_LIMITS.maxMineRampRounds,
+            format: (value: number) => (value ? `${value} rds` : "Slap"),
+          },
+        ]
+      : []),
+    ...(settings.hider
+      ? [
+          {
+            key: "hiderPickLimit" as const,
+            label: "Hider Pick Limit",
+            hint: "The hider scores if someone is slapped within this many picks",
+            min: 1,
+            max: BOARD_LIMITS.maxHiderPickLimit,
+          },
+        ]
+      : []),
+    ...(settings.banking
+      ? [
+          {
+            key: "targetScore" as const,
+            label: "Target Score",
+            hint: "The first player to bank this many points wins",
+            min: BOARD_LIMITS.targetScoreStep,
+            max: BOARD_LIMITS.maxTargetScore,
+            step: BOARD_LIMITS.targetScoreStep,
+          },
+        ]
+      : []),
+    ...POWER_UP_KINDS.map((kind) => ({
+      key: POWER_UP_SETTING_KEYS[kind],
+      label: `${POWER_UP_INFO[kind].label} Tiles`,
+      hint: powerUpHints[kind],
+      min: 0,
+      max: settings[POWER_UP_SETTING_KEYS[kind]] + freeTiles,
+    })),
+    {
+      key: "turnSeconds",
+      label: "Turn Timer",
+      hint: "Random picks are made when time runs out",
+      min: 0,
+      max: BOARD_LIMITS.maxTurnSeconds,
+      step: BOARD_LIMITS.turnSecondsStep,
+      format: (value) => (value ? `${value}s` : "Off"),
+    },
+  ];
+
+  const updateSetting = (key: NumericSettingKey, delta: number) => {
+    setSettings((prev) => normalizeSettings({ ...prev, [key]: prev[key] + delta }));
+    Haptics.selectionAsync();
+  };
+
+  const updateHandicap = (player: string, change: Handicap) => {
+    setSettings((prev) => {
+      const handicap = { ...getHandicap(prev, player), ...change };
+      if (handicap.picksPerTurn === prev.picksPerTurn) delete handicap.picksPerTurn;
+      if (handicap.minPicksPerTurn === prev.minPicksPerTurn) delete handicap.minPicksPerTurn;
+      if (!handicap.bonusMine) delete handicap.bonusMine;
+      return normalizeSettings({
+        ...prev,
+        handicaps: { ...prev.handicaps, [player]: handicap },
+      });
+    });
+    Haptics.selectionAsync();
+  };
+
+  const startGame = (room?: string, relay?: string) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const session = startSession(createSessionConfig(setup, settings, room, relay));
+    router.push({ pathname: "/game", params: { session } });
+  };
+
+  const hostGame = () => {
+    const relay = relayUrlSchema(relayUrl);
+    if (!relay.ok) {
+      Alert.alert("Invalid Relay", "The relay address starts with ws:// or wss://.");
+      return;
+    }
+    startGame(toRoundCode(randomSeed()), relay.value);
+  };
+
+  const shareInvite = () => {
+    const humans = players.filter((name) => !setup.bots?.[name]);
+    if (humans.some((name) => name.includes(","))) {
+      Alert.alert("Can't Share", "Names with commas can't be sent in an invite link.");
+      return;
+    }
+    const url = Linking.createURL("play", {
+      queryParams: toInviteQuery({
+        players: humans,
+        mines: settings.mineCount,
+        seed: setup.code ? toRoundCode(parseRoundCode(setup.code) ?? 0) : undefined,
+      }),
+    });
+    Share.share({ message: `Join our Slap Grid game: ${url}` });
+  };
+
+  const setupLink = Linking.createURL("import", {
+    queryParams: {
+      setup: encodeSetupPayload({
+        players,
+        bots: setup.bots ?? {},
+        settings,
+        code: setup.code,
+      }),
+    },
+  });
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[styles.iconButton, { backgroundColor: theme.card }]}
+        >
+          <ArrowLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <View style={styles.topActions}>
+          <TouchableOpacity
+            onPress={() => setIsQrVisible(true)}
+            style={[styles.shareButton, { backgroundColor: theme.card }]}
+            accessibilityRole="button"
+            accessibilityLabel="Show QR"
+          >
+            <QrCode size={18} color={theme.text} />
+            <Text style={[styles.shareText, { color: theme.text }]}>Show QR</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={shareInvite}
+            style={[styles.shareButton, { backgroundColor: theme.card }]}
+          >
+            <Share2 size={18} color={theme.text} />
+            <Text style={[styles.shareText, { color: theme.text }]}>Share invite</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Animated.View entering={FadeInDown.delay(100)} style={styles.header}>
+          <View style={[styles.iconContainer, { backgroundColor: theme.iconBackground }]}>
+            <SlidersHorizontal size={32} color={theme.text} />
+          </View>
+          <Text style={[styles.title, { color: theme.text }]}>Game Rules</Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            Size the board and set how bold each turn must be
+          </Text>
+        </Animated.View>
+
+        {rows.map((row) => (
+          <View
+            key={row.key}
+            style={[
+              styles.settingCard,
+              { backgroundColor: theme.card, borderColor: theme.border },
+            ]}
+          >
+            <View style={styles.settingText}>
+              <Text style={[styles.settingLabel, { color: theme.text }]}>{row.label}</Text>
+              <Text style={[styles.settingHint, { color: theme.textSecondary }]}>
+                {row.hint}
+              </Text>
+            </View>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                onPress={() => updateSetting(row.key, -(row.step ?? 1))}
+                disabled={settings[row.key] <= row.min}
+                style={[
+                  styles.controlButton,
+                  { backgroundColor: theme.cardSecondary },
+                  settings[row.key] <= row.min && styles.controlDisabled,
+                ]}
+                hitSlop={8}
+              >
+                <Minus size={16} color={theme.text} />
+              </TouchableOpacity>
+              <Text style={[styles.settingValue, { color: theme.primary }]}>
+                {row.format ? row.format(settings[row.key]) : settings[row.key]}
+              </Text>
+              <TouchableOpacity
+                onPress={() => updateSetting(row.key, row.step ?? 1)}
+                disabled={settings[row.key] >= row.max}
+                style={[
+                  styles.controlButton,
+                  { backgroundColor: theme.cardSecondary },
+                  settings[row.key] >= row.max && styles.controlDisabled,
+                ]}
+                hitSlop={8}
+              >
+                <Plus size={16} color={theme.text} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+
+        {toggles.map((toggle) => (
+          <View
+            key={toggle.key}
+            style={[
+              styles.settingCard,
+              { backgroundColor: theme.card, borderColor: theme.border },
+            ]}
+          >
+            <View style={styles.settingText}>
+              <Text style={[styles.settingLabel, { color: theme.text }]}>{toggle.label}</Text>
+              <Text style={[styles.settingHint, { color: theme.textSecondary }]}>
+                {toggle.hint}
+              </Text>
+            </View>
+            <Switch
+              value={settings[toggle.key]}
+              onValueChange={(value) => {
+                setSettings((prev) => ({ ...prev, [toggle.key]: value }));
+                Haptics.selectionAsync();
+              }}
+              trackColor={{ true: theme.primary, false: theme.border }}
+            />
+          </View>
+        ))}
+
+        {players.length > 0 && (
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.settingLabel, { color: theme.text }]}>Handicaps</Text>
+            <Text style={[styles.settingHint, { color: theme.textSecondary }]}>
+              Give younger or newer players their own turn rules
+            </Text>
+          </View>
+        )}
+        {players.map((player) => (
+          <View
+            key={player}
+            style={[
+              styles.settingCard,
+              styles.handicapCard,
+              { backgroundColor: theme.card, borderColor: theme.border },
+            ]}
+          >
+            <Text style={[styles.settingLabel, { color: theme.text }]}>{player}</Text>
+            <View style={styles.handicapRow}>
+              <MiniStepper
+                label="Picks"
+                value={getPicksPerTurn(settings, player)}
+                min={1}
+                max={maxPicks}
+                onChange={(value) => updateHandicap(player, { picksPerTurn: value })}
+                theme={theme}
+              />
+              <MiniStepper
+                label="Before End Turn"
+                value={getMinPicksPerTurn(settings, player)}
+                min={1}
+                max={getPicksPerTurn(settings, player)}
+                onChange={(value) => updateHandicap(player, { minPicksPerTurn: value })}
+                theme={theme}
+              />
+            </View>
+            <View style={styles.handicapRow}>
+              <Text style={[styles.settingHint, { color: theme.textSecondary }]}>
+                Bonus mine on their turns
+              </Text>
+              <Switch
+                value={!!getHandicap(settings, player).bonusMine}
+                onValueChange={(value) => updateHandicap(player, { bonusMine: value })}
+                trackColor={{ true: theme.primary, false: theme.border }}
+              />
+            </View>
+          </View>
+        ))}
+
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.settingLabel, { color: theme.text }]}>Several Phones</Text>
+          <Text style={[styles.settingHint, { color: theme.textSecondary }]}>
+            The relay that guests join when you host on several phones
+          </Text>
+        </View>
+        <View
+          style={[
+            styles.relayContainer,
+            { backgroundColor: theme.inputBackground, borderColor: theme.border },
+          ]}
+        >
+          <Server size={18} color={theme.textSecondary} />
+          <TextInput
+            style={[styles.relayInput, { color: theme.text }]}
+            placeholder="ws://192.168.1.10:8787"
+            placeholderTextColor={theme.textSecondary}
+            value={relayUrl}
+            onChangeText={setRelayUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            accessibilityLabel="Relay address"
+          />
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.startButton,
+            { backgroundColor: theme.primary, shadowColor: theme.primary },
+          ]}
+          onPress={() => startGame()}
+        >
+          <Text style={[styles.startButtonText, { color: theme.primaryForeground }]}>
+            Start Game
+          </Text>
+          <Play size={20} color={theme.primaryForeground} fill={theme.primaryForeground} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.hostButton, { backgroundColor: theme.card, borderColor: theme.border }]}
+          onPress={hostGame}
+        >
+          <Wifi size={18} color={theme.text} />
+          <Text style={[styles.hostButtonText, { color: theme.text }]}>
+            Host on Several Phones
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <SetupQrSheet
+        visible={isQrVisible}
+        onClose={() => setIsQrVisible(false)}
+        link={setupLink}
+        theme={theme}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  topBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  topActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  shareButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    height: 44,
+    paddingHorizontal: 16,
+    borderRadius: 22,
+  },
+  shareText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  iconButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  content: {
+    padding: 24,
+    gap: 12,
+  },
+  header: {
+    marginBottom: 20,
+    alignItems: "center",
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "800",
+    marginBottom: 8,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: "center",
+  },
+  settingCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  settingText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingLabel: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  settingHint: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  controlButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: "rgba(0,0,0,0.05)",
+  },
+  controlDisabled: {
+    opacity: 0.4,
+  },
+  sectionHeader: {
+    marginTop: 12,
+  },
+  relayContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: 48,
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  relayInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  handicapCard: {
+    flexDirection: "column",
+    alignItems: "stretch",
+    gap: 12,
+  },
+  handicapRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  miniStepper: {
+    gap: 6,
+  },
+  miniValue: {
+    fontSize: 18,
+    fontWeight: "800",
+    minWidth: 24,
+    textAlign: "center",
+  },
+  settingValue: {
+    fontSize: 24,
+    fontWeight: "800",
+    minWidth: 48,
+    textAlign: "center",
+  },
+  footer: {
+    padding: 24,
+    paddingTop: 8,
+    gap: 12,
+  },
+  startButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    height: 60,
+    borderRadius: 20,
+    gap: 12,
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  startButtonText: {
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  hostButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    height: 48,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 8,
+  },
+  hostButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { ShieldAlert, ShieldCheck } from "lucide-react-native";
+import { Colors } from "@/constants/colors";
+import { describeTile, formatHash, type Layout, verifyCommitment } from "@/lib/fairness";
+import { POWER_UP_INFO } from "@/lib/powerups";
+
+export function CommitmentCard({
+  commitment,
+  salt,
+  layout,
+  theme,
+}: {
+  commitment: string;
+  salt: string;
+  layout: Layout;
+  theme: typeof Colors.light;
+}) {
+  const [result, setResult] = useState<boolean | null>(null);
+  const powerUps = layout.powerUps
+    .map((powerUp) => {
+      const tile = describeTile(powerUp.index, layout.columns);
+      return `${tile} ${POWER_UP_INFO[powerUp.kind].label}`;
+    })
+    .join(", ");
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.cardSecondary }]}>
+      <Text style={[styles.label, { color: theme.textSecondary }]}>Mines</Text>
+      <Text style={[styles.value, { color: theme.text }]}>
+        {layout.mines.map((index) => describeTile(index, layout.columns)).join(", ")}
+      </Text>
+      {layout.powerUps.length > 0 && (
+        <>
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Power-ups</Text>
+          <Text style={[styles.value, { color: theme.text }]}>{powerUps}</Text>
+        </>
+      )}
+      <Text style={[styles.label, { color: theme.textSecondary }]}>Salt</Text>
+      <Text style={[styles.value, styles.mono, { color: theme.text }]}>{salt}</Text>
+      <Text style={[styles.label, { color: theme.textSecondary }]}>Commitment</Text>
+      <Text style={[styles.value, styles.mono, { color: theme.text }]}>
+        {formatHash(commitment)}
+      </Text>
+
+      {result === null ? (
+        <TouchableOpacity
+          onPress={() => setResult(verifyCommitment(commitment, layout, salt))}
+          style={[styles.verifyButton, { borderColor: theme.primary }]}
+        >
+          <ShieldCheck size={16} color={theme.primary} />
+          <Text style={[styles.verifyText, { color: theme.primary }]}>Verify</Text>
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.result}>
+          {result ? (
+            <ShieldCheck size={16} color={theme.success} />
+          ) : (
+            <ShieldAlert size={16} color={theme.danger} />
+          )}
+          <Text style={[styles.verifyText, { color: result ? theme.success : theme.danger }]}>
+            {result ? "Layout matches the commitment" : "Layout does not match!"}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    alignSelf: "stretch",
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginTop: 4,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  mono: {
+    fontVariant: ["tabular-nums"],
+    letterSpacing: 0.5,
+  },
+  verifyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  verifyText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  result: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 8,
+  },
+});
@@ -0,0 +1,195 @@
+import React, { useState } from "react";
+import {
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useWindowDimensions,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Bomb, EyeOff } from "lucide-react-native";
+import { Colors } from "@/constants/colors";
+import { gameStyles } from "@/components/gameStyles";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { getGridLayout, GRID_PADDING, MAX_GRID_WIDTH } from "@/components/TileComponent";
+import { useProfiles } from "@/hooks/useProfiles";
+
+export function HiderPlacement({
+  visible,
+  hider,
+  rows,
+  columns,
+  mineCount,
+  onConfirm,
+  theme,
+}: {
+  visible: boolean;
+  hider: string;
+  rows: number;
+  columns: number;
+  mineCount: number;
+  onConfirm: (mines: number[]) => void;
+  theme: typeof Colors.light;
+}) {
+  const { getProfile } = useProfiles();
+  const { width: windowWidth } = useWindowDimensions();
+  const [isHiderReady, setIsHiderReady] = useState(false);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [availableHeight, setAvailableHeight] = useState(0);
+  const { gap, tileSize, gridWidth } = getGridLayout(
+    Math.min(windowWidth - GRID_PADDING * 2, MAX_GRID_WIDTH),
+    availableHeight,
+    rows,
+    columns
+  );
+  const isComplete = selected.length === mineCount;
+
+  const toggleTile = (index: number) => {
+    setSelected((prev) =>
+      prev.includes(index)
+        ? prev.filter((i) => i !== index)
+        : prev.length < mineCount
+          ? [...prev, index]
+          : prev
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide">
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        {!isHiderReady ? (
+          <View style={styles.handoff}>
+            <PlayerAvatar name={hider} profile={getProfile(hider)} size={72} />
+            <Text style={[styles.title, { color: theme.text }]}>Pass the phone to {hider}</Text>
+            <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+              {hider} hides the mines this round. Everyone else, look away!
+            </Text>
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: theme.text }]}
+              onPress={() => setIsHiderReady(true)}
+            >
+              <EyeOff size={20} color={theme.background} />
+              <Text style={[styles.primaryText, { color: theme.background }]}>
+                I&apos;m {hider}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <View style={styles.header}>
+              <Text style={[styles.title, { color: theme.text }]}>Hide the mines</Text>
+              <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+                {selected.length} of {mineCount} placed
+              </Text>
+            </View>
+            <View
+              style={gameStyles.gridContainer}
+              onLayout={(event) =>
+                setAvailableHeight(event.nativeEvent.layout.height - GRID_PADDING)
+              }
+            >
+              <View style={[gameStyles.grid, { width: gridWidth, gap }]}>
+                {Array.from({ length: rows * columns }, (_, index) => {
+                  const isMine = selected.includes(index);
+                  return (
+                    <TouchableOpacity
+                      key={index}
+                      activeOpacity={0.8}
+                      onPress={() => toggleTile(index)}
+                      style={[
+                        styles.tile,
+                        { width: tileSize, height: tileSize },
+                        isMine
+                          ? { backgroundColor: theme.mine, borderColor: theme.danger }
+                          : { backgroundColor: theme.card, borderColor: theme.border },
+                      ]}
+                    >
+                      {isMine ? (
+                        <Bomb size={Math.min(24, Math.floor(tileSize / 2))} color="#FFF" />
+                      ) : null}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+            <View style={styles.footer}>
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  { backgroundColor: theme.text },
+                  !isComplete && { backgroundColor: theme.border },
+                ]}
+                onPress={() => onConfirm(selected)}
+                disabled={!isComplete}
+              >
+                <Text
+                  style={[
+                    styles.primaryText,
+                    { color: theme.background },
+                    !isComplete && { color: theme.textSecondary },
+                  ]}
+                >
+                  Hide & Pass the Phone
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  handoff: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+    gap: 16,
+  },
+  header: {
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    gap: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "800",
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  tile: {
+    borderRadius: 16,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  footer: {
+    padding: 24,
+    paddingBottom: 8,
+  },
+  primaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    alignSelf: "stretch",
+    paddingVertical: 18,
+    paddingHorizontal: 32,
+    borderRadius: 20,
+  },
+  primaryText: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,55 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { Image } from "expo-image";
+import type { PlayerProfile } from "@/lib/profiles";
+
+const FALLBACK_COLOR = "#9CA3AF";
+
+export function PlayerAvatar({
+  name,
+  profile,
+  size = 32,
+}: {
+  name: string;
+  profile?: PlayerProfile;
+  size?: number;
+}) {
+  const dimensions = { width: size, height: size, borderRadius: size / 2 };
+
+  if (profile?.avatarUri) {
+    return (
+      <Image
+        source={{ uri: profile.avatarUri }}
+        style={[styles.avatar, dimensions]}
+        contentFit="cover"
+        transition={150}
+      />
+    );
+  }
+
+  return (
+    <View
+      style={[
+        styles.avatar,
+        dimensions,
+        { backgroundColor: profile?.color ?? FALLBACK_COLOR },
+      ]}
+    >
+      <Text style={[styles.initial, { fontSize: size * 0.45 }]}>
+        {name.trim().charAt(0).toUpperCase()}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  avatar: {
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+  initial: {
+    color: "#FFF",
+    fontWeight: "800",
+  },
+});
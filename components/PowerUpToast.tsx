@@ -0,0 +1,76 @@
+import React, { useEffect, useRef } from "react";
+import { StyleSheet, Text } from "react-native";
+import Animated, { FadeInUp, FadeOutUp } from "react-native-reanimated";
+import { Colors } from "@/constants/colors";
+import { POWER_UP_ICONS } from "@/components/TileComponent";
+import { POWER_UP_INFO, type PowerUpKind } from "@/lib/powerups";
+
+const TOAST_DURATION = 1800;
+
+export type PowerUpToastItem = {
+  id: number;
+  kind: PowerUpKind;
+  message?: string;
+};
+
+export function PowerUpToast({
+  toast,
+  onHide,
+  theme,
+}: {
+  toast: PowerUpToastItem | null;
+  onHide: () => void;
+  theme: typeof Colors.light;
+}) {
+  const onHideRef = useRef(onHide);
+  onHideRef.current = onHide;
+
+  useEffect(() => {
+    if (!toast) return;
+    const timeout = setTimeout(() => onHideRef.current(), TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [toast]);
+
+  if (!toast) return null;
+  const Icon = POWER_UP_ICONS[toast.kind];
+
+  return (
+    <Animated.View
+      key={toast.id}
+      entering={FadeInUp}
+      exiting={FadeOutUp}
+      pointerEvents="none"
+      style={[styles.toast, { backgroundColor: theme.powerUp }]}
+    >
+      <Icon size={20} color="#FFF" />
+      <Text style={styles.toastText}>
+        {toast.message ?? POWER_UP_INFO[toast.kind].toast}
+      </Text>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: "absolute",
+    top: 0,
+    alignSelf: "center",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 16,
+    zIndex: 10,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  toastText: {
+    color: "#FFF",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
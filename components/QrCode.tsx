@@ -0,0 +1,35 @@
+import React, { useMemo } from "react";
+import Svg, { Path, Rect } from "react-native-svg";
+import { encodeQr } from "@/lib/qr";
+
+const QUIET_ZONE = 4;
+
+export function QrCode({
+  value,
+  size,
+  color = "#000",
+  background = "#FFF",
+}: {
+  value: string;
+  size: number;
+  color?: string;
+  background?: string;
+}) {
+  const { path, extent } = useMemo(() => {
+    const modules = encodeQr(value);
+    let d = "";
+    modules.forEach((row, y) => {
+      row.forEach((isDark, x) => {
+        if (isDark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      });
+    });
+    return { path: d, extent: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <Svg width={size} height={size} viewBox={`0 0 ${extent} ${extent}`}>
+      <Rect width={extent} height={extent} fill={background} />
+      <Path d={path} fill={color} />
+    </Svg>
+  );
+}
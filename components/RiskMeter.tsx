@@ -0,0 +1,99 @@
+import React, { useEffect } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import Animated, {
+  interpolateColor,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+import { Colors } from "@/constants/colors";
+import { formatChance, type RiskOdds } from "@/lib/odds";
+
+const GAUGE_DURATION = 400;
+
+export function RiskMeter({
+  odds,
+  picksLeft,
+  theme,
+}: {
+  odds: RiskOdds;
+  picksLeft: number;
+  theme: typeof Colors.light;
+}) {
+  const risk = useSharedValue(odds.mineChance);
+
+  useEffect(() => {
+    risk.value = withTiming(odds.mineChance, { duration: GAUGE_DURATION });
+  }, [odds.mineChance, risk]);
+
+  const fillStyle = useAnimatedStyle(() => ({
+    width: `${Math.max(risk.value, 0.02) * 100}%`,
+    backgroundColor: interpolateColor(
+      risk.value,
+      [0, 0.25, 0.5],
+      [theme.success, theme.powerUp, theme.danger]
+    ),
+  }));
+
+  return (
+    <View style={[styles.container, { borderColor: theme.border }]}>
+      <View style={styles.labels}>
+        <Text style={[styles.label, { color: theme.textSecondary }]}>
+          Next tile{" "}
+          <Text style={[styles.value, { color: theme.text }]}>
+            {formatChance(odds.mineChance)}
+          </Text>{" "}
+          mine
+        </Text>
+        <Text style={[styles.label, { color: theme.textSecondary }]}>
+          Survive {picksLeft} {picksLeft === 1 ? "pick" : "picks"}{" "}
+          <Text style={[styles.value, { color: theme.text }]}>
+            {formatChance(odds.survivalChance)}
+          </Text>
+        </Text>
+      </View>
+      <View style={[styles.track, { backgroundColor: theme.cardSecondary }]}>
+        <Animated.View style={[styles.fill, fillStyle]} />
+      </View>
+      <Text style={[styles.hint, { color: theme.textSecondary }]}>
+        {odds.hiddenMines} {odds.hiddenMines === 1 ? "mine" : "mines"} among{" "}
+        {odds.hiddenTiles} hidden tiles
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    borderTopWidth: 1,
+    marginTop: 12,
+    paddingTop: 12,
+    gap: 6,
+  },
+  labels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "800",
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  hint: {
+    fontSize: 11,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,85 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Link2Off } from "lucide-react-native";
+import { Colors } from "@/constants/colors";
+
+export function RouteError({
+  title,
+  message,
+  detail,
+  theme,
+}: {
+  title: string;
+  message: string;
+  detail?: string;
+  theme: typeof Colors.light;
+}) {
+  const router = useRouter();
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={[styles.iconContainer, { backgroundColor: theme.iconBackground }]}>
+        <Link2Off size={32} color={theme.danger} />
+      </View>
+      <Text style={[styles.title, { color: theme.text }]}>{title}</Text>
+      <Text style={[styles.message, { color: theme.textSecondary }]}>{message}</Text>
+      {detail ? (
+        <Text style={[styles.detail, { color: theme.textSecondary }]}>{detail}</Text>
+      ) : null}
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: theme.text }]}
+        onPress={() => router.dismissTo("/")}
+      >
+        <Text style={[styles.buttonText, { color: theme.background }]}>Back to Setup</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "800",
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 16,
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  detail: {
+    fontSize: 13,
+    textAlign: "center",
+    marginTop: 8,
+    fontVariant: ["tabular-nums"],
+  },
+  button: {
+    marginTop: 32,
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    borderRadius: 16,
+    alignSelf: "stretch",
+    alignItems: "center",
+  },
+  buttonText: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+});
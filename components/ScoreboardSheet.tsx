@@ -0,0 +1,162 @@
+import React from "react";
+import { Modal, Pressable, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Trophy, X } from "lucide-react-native";
+import { Colors } from "@/constants/colors";
+import { useScoreboard } from "@/hooks/useScoreboard";
+import { rankPlayers } from "@/lib/scoreboard";
+
+export function ScoreboardSheet({
+  visible,
+  onClose,
+  players,
+  theme,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  players: string[];
+  theme: typeof Colors.light;
+}) {
+  const { scoreboard, resetScores } = useScoreboard();
+  const ranked = rankPlayers(scoreboard, players);
+  const showHider = ranked.some((entry) => entry.hiderPoints > 0);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.sheet, { backgroundColor: theme.card }]}>
+        <View style={[styles.handle, { backgroundColor: theme.border }]} />
+        <View style={styles.sheetHeader}>
+          <View style={styles.titleRow}>
+            <Trophy size={22} color={theme.primary} />
+            <Text style={[styles.title, { color: theme.text }]}>Scoreboard</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} hitSlop={10}>
+            <X size={22} color={theme.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.row, styles.headingRow, { borderColor: theme.border }]}>
+          <Text style={[styles.nameCell, styles.heading, { color: theme.textSecondary }]}>
+            Player
+          </Text>
+          <Text style={[styles.cell, styles.heading, { color: theme.textSecondary }]}>
+            Slaps
+          </Text>
+          <Text style={[styles.cell, styles.heading, { color: theme.textSecondary }]}>
+            Safe
+          </Text>
+          <Text style={[styles.cell, styles.heading, { color: theme.textSecondary }]}>
+            Survived
+          </Text>
+          {showHider && (
+            <Text style={[styles.cell, styles.heading, { color: theme.textSecondary }]}>
+              Hider
+            </Text>
+          )}
+        </View>
+        {ranked.map((entry) => (
+          <View key={entry.name} style={[styles.row, { borderColor: theme.border }]}>
+            <Text style={[styles.nameCell, { color: theme.text }]} numberOfLines={1}>
+              {entry.name}
+            </Text>
+            <Text style={[styles.cell, styles.value, { color: theme.danger }]}>
+              {entry.slaps}
+            </Text>
+            <Text style={[styles.cell, styles.value, { color: theme.success }]}>
+              {entry.safePicks}
+            </Text>
+            <Text style={[styles.cell, styles.value, { color: theme.text }]}>
+              {entry.roundsSurvived}
+            </Text>
+            {showHider && (
+              <Text style={[styles.cell, styles.value, { color: theme.primary }]}>
+                {entry.hiderPoints}
+              </Text>
+            )}
+          </View>
+        ))}
+
+        <TouchableOpacity
+          style={[styles.resetButton, { borderColor: theme.border }]}
+          onPress={resetScores}
+        >
+          <Text style={[styles.resetText, { color: theme.textSecondary }]}>Reset Scores</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  sheet: {
+    borderTopLeftRadius: 32,
+    borderTopRightRadius: 32,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  handle: {
+    alignSelf: "center",
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    marginBottom: 16,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "800",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headingRow: {
+    paddingVertical: 8,
+  },
+  heading: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  nameCell: {
+    flex: 2,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  cell: {
+    flex: 1,
+    textAlign: "center",
+  },
+  value: {
+    fontSize: 18,
+    fontWeight: "800",
+  },
+  resetButton: {
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    alignItems: "center",
+  },
+  resetText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
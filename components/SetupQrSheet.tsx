@@ -0,0 +1,120 @@
+import React from "react";
+import {
+  Modal,
+  Pressable,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { QrCode as QrCodeIcon, Share2, X } from "lucide-react-native";
+import { Colors } from "@/constants/colors";
+import { QrCode } from "@/components/QrCode";
+
+const QR_SIZE = 240;
+
+export function SetupQrSheet({
+  visible,
+  onClose,
+  link,
+  theme,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  link: string;
+  theme: typeof Colors.light;
+}) {
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.sheet, { backgroundColor: theme.card }]}>
+        <View style={[styles.handle, { backgroundColor: theme.border }]} />
+        <View style={styles.sheetHeader}>
+          <View style={styles.titleRow}>
+            <QrCodeIcon size={22} color={theme.primary} />
+            <Text style={[styles.title, { color: theme.text }]}>Setup QR</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} hitSlop={10}>
+            <X size={22} color={theme.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.code}>{visible && <QrCode value={link} size={QR_SIZE} />}</View>
+        <Text style={[styles.hint, { color: theme.textSecondary }]}>
+          Scan with a phone camera to open these players and rules in Slap Grid, or share the
+          text and paste it into Import Setup.
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.shareButton, { borderColor: theme.border }]}
+          onPress={() => Share.share({ message: link })}
+        >
+          <Share2 size={18} color={theme.textSecondary} />
+          <Text style={[styles.shareText, { color: theme.textSecondary }]}>Share as Text</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  sheet: {
+    borderTopLeftRadius: 32,
+    borderTopRightRadius: 32,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  handle: {
+    alignSelf: "center",
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    marginBottom: 16,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "800",
+  },
+  code: {
+    alignSelf: "center",
+    padding: 8,
+    borderRadius: 16,
+    backgroundColor: "#FFF",
+  },
+  hint: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: "center",
+    marginTop: 16,
+  },
+  shareButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  shareText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
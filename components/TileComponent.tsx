@@ -0,0 +1,202 @@
+import React, { useEffect } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import {
+  ArrowLeftRight,
+  Bomb,
+  CopyPlus,
+  type LucideIcon,
+  Shield,
+  SkipForward,
+} from "lucide-react-native";
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withTiming,
+} from "react-native-reanimated";
+import { Colors } from "@/constants/colors";
+import type { Tile } from "@/lib/engine";
+import { POWER_UP_INFO, type PowerUpKind } from "@/lib/powerups";
+
+const GAP = 12;
+const MIN_GAP = 4;
+
+export const POWER_UP_ICONS: Record<PowerUpKind, LucideIcon> = {
+  shield: Shield,
+  skip: SkipForward,
+  double: CopyPlus,
+  reverse: ArrowLeftRight,
+};
+
+export const GRID_PADDING = 24;
+export const MAX_GRID_WIDTH = 420;
+
+export function getGridLayout(
+  width: number,
+  height: number,
+  rows: number,
+  columns: number
+) {
+  const gap = Math.max(MIN_GAP, Math.round((GAP * 5) / Math.max(rows, columns, 5)));
+  const byWidth = (width - gap * (columns - 1)) / columns;
+  const byHeight = height > 0 ? (height - gap * (rows - 1)) / rows : byWidth;
+  const tileSize = Math.max(0, Math.floor(Math.min(byWidth, byHeight)));
+  return {
+    gap,
+    tileSize,
+    gridWidth: tileSize * columns + gap * (columns - 1),
+  };
+}
+
+function getTileLabel(tile: Tile, columns: number, showCount: boolean): string {
+  const position = `Row ${Math.floor(tile.id / columns) + 1}, column ${(tile.id % columns) + 1}`;
+  if (!tile.isRevealed) return `${position}, hidden`;
+  if (tile.isMine) return `${position}, mine`;
+  if (tile.kind !== "safe" && tile.kind !== "mine") {
+    return `${position}, safe, ${POWER_UP_INFO[tile.kind].label} power-up`;
+  }
+  if (!showCount) return `${position}, safe`;
+  const count = tile.adjacentMines;
+  return `${position}, safe, ${count} ${count === 1 ? "mine" : "mines"} nearby`;
+}
+
+export function TileComponent({
+  tile,
+  onPress,
+  disabled,
+  theme,
+  tileSize,
+  columns,
+  showCount = false,
+  isFocused = false,
+}: {
+  tile: Tile;
+  onPress: () => void;
+  disabled: boolean;
+  theme: typeof Colors.light;
+  tileSize: number;
+  columns: number;
+  showCount?: boolean;
+  isFocused?: boolean;
+}) {
+  const rotate = useSharedValue(0);
+
+  useEffect(() => {
+    if (tile.isRevealed) {
+      rotate.value = withTiming(180, { duration: 300 });
+    } else {
+      rotate.value = withTiming(0, { duration: 0 });
+    }
+  }, [tile.isRevealed, rotate]);
+
+  const frontStyle = useAnimatedStyle(() => ({
+    transform: [{ perspective: 1000 }, { rotateY: `${rotate.value}deg` }],
+    backfaceVisibility: "hidden",
+    position: "absolute",
+    width: "100%",
+    height: "100%",
+  }));
+
+  const backStyle = useAnimatedStyle(() => ({
+    transform: [{ perspective: 1000 }, { rotateY: `${rotate.value - 180}deg` }],
+    backfaceVisibility: "hidden",
+    width: "100%",
+    height: "100%",
+  }));
+
+  const iconSize = Math.min(24, Math.floor(tileSize / 2));
+  const PowerUpIcon =
+    tile.kind === "mine" || tile.kind === "safe" ? null : POWER_UP_ICONS[tile.kind];
+
+  return (
+    <TouchableOpacity
+      activeOpacity={0.8}
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityLabel={getTileLabel(tile, columns, showCount)}
+      accessibilityHint={disabled ? undefined : "Picks this tile"}
+      accessibilityState={{ disabled }}
+      style={[styles.tileWrapper, { width: tileSize, height: tileSize }]}
+    >
+      <Animated.View
+        style={[
+          styles.tile,
+          styles.tileFront,
+          { backgroundColor: theme.card, borderColor: theme.border },
+          frontStyle,
+        ]}
+      />
+      <Animated.View
+        style={[
+          styles.tile,
+          styles.tileBack,
+          tile.isMine
+            ? { backgroundColor: theme.mine, borderColor: theme.danger }
+            : PowerUpIcon
+              ? { backgroundColor: theme.powerUp, borderColor: theme.powerUp }
+              : { backgroundColor: theme.safe, borderColor: theme.success },
+          backStyle,
+        ]}
+      >
+        {tile.isMine ? (
+          <Bomb size={iconSize} color="#FFF" />
+        ) : PowerUpIcon ? (
+          <PowerUpIcon size={iconSize} color="#FFF" />
+        ) : showCount && tile.adjacentMines > 0 ? (
+          <Text
+            style={[styles.count, { fontSize: Math.min(22, Math.floor(tileSize / 2)) }]}
+            allowFontScaling={false}
+          >
+            {tile.adjacentMines}
+          </Text>
+        ) : (
+          <View style={styles.safeDot} />
+        )}
+      </Animated.View>
+      {isFocused && <View style={[styles.focusRing, { borderColor: theme.primary }]} />}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  tileWrapper: {},
+  tile: {
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  tileFront: {
+    borderWidth: 1,
+  },
+  tileBack: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    borderWidth: 1,
+  },
+  focusRing: {
+    position: "absolute",
+    top: -5,
+    left: -5,
+    right: -5,
+    bottom: -5,
+    borderRadius: 20,
+    borderWidth: 3,
+    pointerEvents: "none",
+  },
+  count: {
+    color: "#FFF",
+    fontWeight: "800",
+  },
+  safeDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: "rgba(255,255,255,0.4)",
+  },
+});
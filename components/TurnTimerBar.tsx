@@ -0,0 +1,74 @@
+import React, { useEffect, useRef } from "react";
+import { StyleSheet, View } from "react-native";
+import Animated, {
+  Easing,
+  cancelAnimation,
+  interpolateColor,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+import { Colors } from "@/constants/colors";
+
+export function TurnTimerBar({
+  seconds,
+  turnKey,
+  active,
+  deadline,
+  onExpire,
+  theme,
+}: {
+  seconds: number;
+  turnKey: string;
+  active: boolean;
+  deadline?: number | null;
+  onExpire?: () => void;
+  theme: typeof Colors.light;
+}) {
+  const progress = useSharedValue(1);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (!active) {
+      cancelAnimation(progress);
+      return;
+    }
+    const total = seconds * 1000;
+    const duration = deadline ? Math.min(total, Math.max(0, deadline - Date.now())) : total;
+    progress.value = duration / total;
+    progress.value = withTiming(0, { duration, easing: Easing.linear });
+    const timeout = setTimeout(() => onExpireRef.current?.(), duration);
+    return () => clearTimeout(timeout);
+  }, [turnKey, active, seconds, deadline, progress]);
+
+  const fillStyle = useAnimatedStyle(() => ({
+    width: `${progress.value * 100}%`,
+    backgroundColor: interpolateColor(
+      progress.value,
+      [0, 0.3, 1],
+      [theme.danger, theme.danger, theme.primary]
+    ),
+  }));
+
+  return (
+    <View style={[styles.track, { backgroundColor: theme.cardSecondary }]}>
+      <Animated.View style={[styles.fill, fillStyle]} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  track: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+    marginHorizontal: 24,
+    marginTop: -20,
+    marginBottom: 24,
+  },
+  fill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+});
@@ -0,0 +1,159 @@
+import React from "react";
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Crown } from "lucide-react-native";
+import Animated, { ZoomIn } from "react-native-reanimated";
+import { Colors } from "@/constants/colors";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { useProfiles } from "@/hooks/useProfiles";
+
+export function WinnerModal({
+  winner,
+  eliminated,
+  subtitle = "Last one standing",
+  onPlayAgain,
+  onExit,
+  theme,
+}: {
+  winner: string | null;
+  eliminated: string[];
+  subtitle?: string;
+  onPlayAgain?: () => void;
+  onExit: () => void;
+  theme: typeof Colors.light;
+}) {
+  const { getProfile } = useProfiles();
+
+  return (
+    <Modal visible={!!winner} transparent animationType="fade">
+      <View style={styles.overlay}>
+        <Animated.View
+          entering={ZoomIn.duration(400)}
+          style={[styles.card, { backgroundColor: theme.card }]}
+        >
+          <View style={[styles.crown, { backgroundColor: theme.primary }]}>
+            <Crown size={48} color="#FFF" />
+          </View>
+          {winner ? (
+            <PlayerAvatar name={winner} profile={getProfile(winner)} size={64} />
+          ) : null}
+          <Text style={[styles.winnerName, { color: theme.text }]}>{winner}</Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            {subtitle}
+          </Text>
+
+          {eliminated.length > 0 ? (
+            <View style={[styles.order, { borderColor: theme.border }]}>
+              <Text style={[styles.orderTitle, { color: theme.textSecondary }]}>
+                Elimination Order
+              </Text>
+              {eliminated.map((name, index) => (
+                <View key={name} style={styles.orderRow}>
+                  <Text style={[styles.orderIndex, { color: theme.textSecondary }]}>
+                    {index + 1}.
+                  </Text>
+                  <PlayerAvatar name={name} profile={getProfile(name)} size={24} />
+                  <Text style={[styles.orderName, { color: theme.text }]}>{name}</Text>
+                </View>
+              ))}
+            </View>
+          ) : null}
+
+          {onPlayAgain ? (
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: theme.text }]}
+              onPress={onPlayAgain}
+            >
+              <Text style={[styles.primaryText, { color: theme.background }]}>Play Again</Text>
+            </TouchableOpacity>
+          ) : null}
+          <TouchableOpacity style={styles.secondaryButton} onPress={onExit}>
+            <Text style={[styles.secondaryText, { color: theme.textSecondary }]}>
+              Back to Setup
+            </Text>
+          </TouchableOpacity>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  card: {
+    borderRadius: 32,
+    padding: 32,
+    alignItems: "center",
+    width: "100%",
+    maxWidth: 340,
+  },
+  crown: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 20,
+  },
+  winnerName: {
+    fontSize: 28,
+    fontWeight: "900",
+    marginTop: 12,
+  },
+  subtitle: {
+    fontSize: 16,
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  order: {
+    alignSelf: "stretch",
+    borderTopWidth: 1,
+    paddingTop: 16,
+    marginBottom: 24,
+    gap: 8,
+  },
+  orderTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  orderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  orderIndex: {
+    width: 20,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  orderName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  primaryButton: {
+    paddingVertical: 16,
+    borderRadius: 16,
+    width: "100%",
+    alignItems: "center",
+  },
+  primaryText: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  secondaryText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,161 @@
+import { StyleSheet } from "react-native";
+import { GRID_PADDING } from "@/components/TileComponent";
+
+// Header, stats, board and slap card styles shared by the screens that show a grid.
+export const gameStyles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  iconButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  turnContainer: {
+    flex: 1,
+    alignItems: "center",
+    marginHorizontal: 12,
+  },
+  turnLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  currentPlayerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  currentPlayer: {
+    flexShrink: 1,
+    fontSize: 20,
+    fontWeight: "800",
+    textAlign: "center",
+  },
+  statsContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    alignItems: "center",
+    marginHorizontal: 24,
+    borderRadius: 20,
+    padding: 16,
+    marginBottom: 32,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  statBox: {
+    alignItems: "center",
+    flex: 1,
+  },
+  divider: {
+    width: 1,
+    height: 32,
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: "800",
+  },
+  statLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  gridContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: GRID_PADDING,
+    flex: 1,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+  },
+  footer: {
+    flexDirection: "row",
+    gap: 12,
+    padding: 24,
+    paddingBottom: 8,
+  },
+  endTurnButton: {
+    flex: 1,
+    paddingVertical: 18,
+    borderRadius: 20,
+    alignItems: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  endTurnText: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  slapCard: {
+    borderRadius: 32,
+    padding: 32,
+    alignItems: "center",
+    width: "100%",
+    maxWidth: 340,
+  },
+  slapIconContainer: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 24,
+    transform: [{ rotate: "-15deg" }],
+  },
+  slapTitle: {
+    fontSize: 28,
+    fontWeight: "900",
+    marginBottom: 12,
+    textAlign: "center",
+    textTransform: "uppercase",
+  },
+  slapSubtitle: {
+    fontSize: 18,
+    textAlign: "center",
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  slapName: {
+    fontWeight: "700",
+  },
+  continueButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    borderRadius: 16,
+    width: "100%",
+    alignItems: "center",
+  },
+  continueText: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+});
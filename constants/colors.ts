@@ -12,6 +12,7 @@ export const Colors = {
     success: "#10B981",
     mine: "#EF4444",
     safe: "#10B981",
+    powerUp: "#F59E0B",
     iconBackground: "#E5E7EB",
     inputBackground: "#FFFFFF",
   },
@@ -28,6 +29,7 @@ export const Colors = {
     success: "#34D399",
     mine: "#EF4444",
     safe: "#059669",
+    powerUp: "#D97706",
     iconBackground: "#374151",
     inputBackground: "#1F2937",
   },
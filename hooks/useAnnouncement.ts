@@ -0,0 +1,9 @@
+import { useEffect } from "react";
+import { AccessibilityInfo, Platform } from "react-native";
+
+// Android and web read `accessibilityLiveRegion` updates on their own; VoiceOver needs a nudge.
+export function useAnnouncement(message: string | null) {
+  useEffect(() => {
+    if (message && Platform.OS === "ios") AccessibilityInfo.announceForAccessibility(message);
+  }, [message]);
+}
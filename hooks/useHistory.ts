@@ -0,0 +1,30 @@
+import createContextHook from "@nkzw/create-context-hook";
+import { useCallback, useEffect, useState } from "react";
+import { MAX_HISTORY_ROUNDS, type RoundRecord } from "@/lib/history";
+import { STORAGE_KEYS, loadJSON, saveJSON } from "@/lib/storage";
+
+export const [HistoryProvider, useHistory] = createContextHook(() => {
+  const [rounds, setRounds] = useState<RoundRecord[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadJSON<RoundRecord[]>(STORAGE_KEYS.history, []).then((stored) => {
+      setRounds(Array.isArray(stored) ? stored : []);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) saveJSON(STORAGE_KEYS.history, rounds);
+  }, [rounds, isLoaded]);
+
+  const addRound = useCallback((round: RoundRecord) => {
+    setRounds((prev) => [...prev, round].slice(-MAX_HISTORY_ROUNDS));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setRounds([]);
+  }, []);
+
+  return { rounds, isLoaded, addRound, clearHistory };
+});
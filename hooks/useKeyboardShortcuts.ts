@@ -0,0 +1,24 @@
+import { useEffect, useRef } from "react";
+import { Platform } from "react-native";
+
+// Return true from `onKey` to claim a key. Claimed keys skip the focused element, so Enter
+// on a previously clicked tile doesn't also press it; check `target` before claiming keys that
+// other buttons need. Only the web build has a keyboard to hear.
+export function useKeyboardShortcuts(onKey: (key: string, target: Element | null) => boolean) {
+  const onKeyRef = useRef(onKey);
+  onKeyRef.current = onKey;
+
+  useEffect(() => {
+    if (Platform.OS !== "web") return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey || event.repeat) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest?.("input, textarea, [contenteditable='true']")) return;
+      if (!onKeyRef.current(event.key, target)) return;
+      event.preventDefault();
+      event.stopPropagation();
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, []);
+}
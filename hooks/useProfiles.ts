@@ -0,0 +1,107 @@
+import createContextHook from "@nkzw/create-context-hook";
+import { useCallback, useEffect, useState } from "react";
+import {
+  EMPTY_ROSTER,
+  type PlayerProfile,
+  type Roster,
+  createProfile,
+  findProfileByName,
+  getSelectedProfiles,
+  parseRoster,
+  removeFromRoster,
+  renameInRoster,
+} from "@/lib/profiles";
+import { STORAGE_KEYS, loadJSON, saveJSON } from "@/lib/storage";
+
+export const [ProfilesProvider, useProfiles] = createContextHook(() => {
+  const [roster, setRoster] = useState<Roster>(EMPTY_ROSTER);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadJSON<unknown>(STORAGE_KEYS.roster, EMPTY_ROSTER).then((stored) => {
+      setRoster(parseRoster(stored));
+      setIsLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) saveJSON(STORAGE_KEYS.roster, roster);
+  }, [roster, isLoaded]);
+
+  const addProfile = useCallback(
+    (name: string): PlayerProfile | null => {
+      if (!name.trim() || findProfileByName(roster.profiles, name)) return null;
+      const profile = createProfile(name, roster.profiles);
+      setRoster((prev) => ({
+        profiles: [...prev.profiles, profile],
+        selectedIds: [...prev.selectedIds, profile.id],
+      }));
+      return profile;
+    },
+    [roster.profiles]
+  );
+
+  const renameProfile = useCallback(
+    (id: string, name: string): boolean => {
+      if (!renameInRoster(roster, id, name)) return false;
+      setRoster((prev) => renameInRoster(prev, id, name) ?? prev);
+      return true;
+    },
+    [roster]
+  );
+
+  const removeProfile = useCallback((id: string) => {
+    setRoster((prev) => removeFromRoster(prev, id));
+  }, []);
+
+  const toggleSelected = useCallback((id: string) => {
+    setRoster((prev) => ({
+      ...prev,
+      selectedIds: prev.selectedIds.includes(id)
+        ? prev.selectedIds.filter((selectedId) => selectedId !== id)
+        : [...prev.selectedIds, id],
+    }));
+  }, []);
+
+  const selectPlayers = useCallback((names: string[]) => {
+    setRoster((prev) => {
+      const profiles = [...prev.profiles];
+      const selectedIds = names.map((name) => {
+        const existing = findProfileByName(profiles, name);
+        if (existing) return existing.id;
+        const profile = createProfile(name, profiles);
+        profiles.push(profile);
+        return profile.id;
+      });
+      return { profiles, selectedIds };
+    });
+  }, []);
+
+  const setAvatar = useCallback((id: string, avatarUri: string | undefined) => {
+    setRoster((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((profile) =>
+        profile.id === id ? { ...profile, avatarUri } : profile
+      ),
+    }));
+  }, []);
+
+  const getProfile = useCallback(
+    (name: string) => findProfileByName(roster.profiles, name),
+    [roster.profiles]
+  );
+
+  return {
+    profiles: roster.profiles,
+    selectedProfiles: getSelectedProfiles(roster),
+    selectedIds: roster.selectedIds,
+    isLoaded,
+    addProfile,
+    renameProfile,
+    removeProfile,
+    toggleSelected,
+    selectPlayers,
+    setAvatar,
+    getProfile,
+  };
+});
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { type RelayMessage, parseRelayMessage } from "@/lib/network";
+
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 8000;
+
+export type RelayStatus = "connecting" | "open" | "offline" | "refused";
+
+export function useRelay({
+  url,
+  room,
+  role,
+  clientId,
+  token,
+  onMessage,
+  onToken,
+}: {
+  url: string;
+  room: string | undefined;
+  role: "host" | "guest";
+  clientId: string;
+  token?: string;
+  onMessage: (message: RelayMessage) => void;
+  onToken?: (token: string) => void;
+}) {
+  const [status, setStatus] = useState<RelayStatus>("connecting");
+  const socketRef = useRef<WebSocket | null>(null);
+  // The relay's token lets this host reclaim its room, or this guest its id, after a reconnect.
+  const tokenRef = useRef(token);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const onTokenRef = useRef(onToken);
+  onTokenRef.current = onToken;
+
+  useEffect(() => {
+    if (!room) return;
+    let attempt = 0;
+    let isDisposed = false;
+    let isRefused = false;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      setStatus("connecting");
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+      socket.onopen = () => {
+        attempt = 0;
+        socket.send(
+          JSON.stringify({ type: "join", room, role, clientId, token: tokenRef.current })
+        );
+      };
+      socket.onmessage = (event) => {
+        const message = parseRelayMessage(event.data);
+        if (!message) return;
+        if (message.type === "joined") {
+          if (message.token && message.token !== tokenRef.current) {
+            tokenRef.current = message.token;
+            onTokenRef.current?.(message.token);
+          }
+          setStatus("open");
+        } else if (message.type === "refused") {
+          isRefused = true;
+          setStatus("refused");
+        }
+        onMessageRef.current(message);
+      };
+      socket.onclose = () => {
+        if (socketRef.current === socket) socketRef.current = null;
+        if (isDisposed || isRefused) return;
+        setStatus("offline");
+        const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt++);
+        retry = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      isDisposed = true;
+      clearTimeout(retry);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [url, room, role, clientId]);
+
+  const send = useCallback(
+    (message: object) => {
+      const socket = socketRef.current;
+      if (socket?.readyState !== WebSocket.OPEN) return;
+      const token = role === "host" ? tokenRef.current : undefined;
+      socket.send(JSON.stringify(token ? { ...message, token } : message));
+    },
+    [role]
+  );
+
+  return { status: room ? status : "offline", send };
+}
@@ -0,0 +1,31 @@
+import createContextHook from "@nkzw/create-context-hook";
+import { useCallback, useEffect, useState } from "react";
+import { MAX_REPLAYS, type ReplayRecord } from "@/lib/replay";
+import { STORAGE_KEYS, loadJSON, saveJSON } from "@/lib/storage";
+
+export const [ReplaysProvider, useReplays] = createContextHook(() => {
+  const [replays, setReplays] = useState<ReplayRecord[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadJSON<ReplayRecord[]>(STORAGE_KEYS.replays, []).then((stored) => {
+      setReplays(Array.isArray(stored) ? stored : []);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) saveJSON(STORAGE_KEYS.replays, replays);
+  }, [replays, isLoaded]);
+
+  const addReplay = useCallback((replay: ReplayRecord) => {
+    setReplays((prev) => [...prev, replay].slice(-MAX_REPLAYS));
+  }, []);
+
+  const getReplay = useCallback(
+    (id: string) => replays.find((replay) => replay.id === id),
+    [replays]
+  );
+
+  return { replays, isLoaded, addReplay, getReplay };
+});
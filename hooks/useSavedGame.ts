@@ -0,0 +1,28 @@
+import createContextHook from "@nkzw/create-context-hook";
+import { useCallback, useEffect, useState } from "react";
+import { type GameSession, restoreSession } from "@/lib/session";
+import { STORAGE_KEYS, loadJSON, removeKey, saveJSON } from "@/lib/storage";
+
+export const [SavedGameProvider, useSavedGame] = createContextHook(() => {
+  const [savedGame, setSavedGame] = useState<GameSession | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadJSON<unknown>(STORAGE_KEYS.savedGame, null).then((stored) => {
+      setSavedGame(restoreSession(stored));
+      setIsLoaded(true);
+    });
+  }, []);
+
+  const saveGame = useCallback((session: GameSession) => {
+    setSavedGame(session);
+    saveJSON(STORAGE_KEYS.savedGame, session);
+  }, []);
+
+  const clearGame = useCallback(() => {
+    setSavedGame(null);
+    removeKey(STORAGE_KEYS.savedGame);
+  }, []);
+
+  return { savedGame, isLoaded, saveGame, clearGame };
+});
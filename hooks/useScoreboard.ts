@@ -0,0 +1,43 @@
+import createContextHook from "@nkzw/create-context-hook";
+import { useCallback, useEffect, useState } from "react";
+import {
+  type Scoreboard,
+  recordHiderPoint,
+  recordSafePick,
+  recordSlap,
+} from "@/lib/scoreboard";
+import { STORAGE_KEYS, loadJSON, saveJSON } from "@/lib/storage";
+
+export const [ScoreboardProvider, useScoreboard] = createContextHook(() => {
+  const [scoreboard, setScoreboard] = useState<Scoreboard>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadJSON<Scoreboard>(STORAGE_KEYS.scoreboard, {}).then((stored) => {
+      setScoreboard(stored);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) saveJSON(STORAGE_KEYS.scoreboard, scoreboard);
+  }, [scoreboard, isLoaded]);
+
+  const addSafePick = useCallback((player: string) => {
+    setScoreboard((prev) => recordSafePick(prev, player));
+  }, []);
+
+  const addSlap = useCallback((players: string[], slappedPlayer: string) => {
+    setScoreboard((prev) => recordSlap(prev, players, slappedPlayer));
+  }, []);
+
+  const addHiderPoint = useCallback((hider: string) => {
+    setScoreboard((prev) => recordHiderPoint(prev, hider));
+  }, []);
+
+  const resetScores = useCallback(() => {
+    setScoreboard({});
+  }, []);
+
+  return { scoreboard, isLoaded, addSafePick, addSlap, addHiderPoint, resetScores };
+});
@@ -0,0 +1,57 @@
+import { create } from "zustand";
+import { createGame, type GameAction, gameReducer } from "@/lib/engine";
+import { createSalt } from "@/lib/fairness";
+import { randomSeed } from "@/lib/rng";
+import type { GameSession, SessionConfig } from "@/lib/session";
+
+export type { GameSession };
+
+type SessionStore = {
+  sessions: Record<string, GameSession>;
+  startSession: (config: SessionConfig) => string;
+  resumeSession: (session: GameSession) => string;
+  setHostToken: (sessionId: string, hostToken: string) => void;
+  dispatch: (sessionId: string, action: GameAction) => void;
+};
+
+export const useSessionStore = create<SessionStore>((set) => ({
+  sessions: {},
+  startSession: (config) => {
+    const at = Date.now();
+    const state = createGame({
+      players: config.players,
+      bots: config.bots,
+      seed: config.seed ?? randomSeed(),
+      salt: createSalt(),
+      settings: config.settings,
+      sessionId: String(at),
+      at,
+    });
+    set((store) => ({
+      sessions: {
+        ...store.sessions,
+        [state.sessionId]: { state, room: config.room, relay: config.relay },
+      },
+    }));
+    return state.sessionId;
+  },
+  resumeSession: (session) => {
+    const { sessionId } = session.state;
+    set((store) => ({ sessions: { ...store.sessions, [sessionId]: session } }));
+    return sessionId;
+  },
+  setHostToken: (sessionId, hostToken) =>
+    set((store) => {
+      const session = store.sessions[sessionId];
+      if (!session || session.hostToken === hostToken) return store;
+      return { sessions: { ...store.sessions, [sessionId]: { ...session, hostToken } } };
+    }),
+  dispatch: (sessionId, action) =>
+    set((store) => {
+      const session = store.sessions[sessionId];
+      if (!session) return store;
+      const state = gameReducer(session.state, action);
+      if (state === session.state) return store;
+      return { sessions: { ...store.sessions, [sessionId]: { ...session, state } } };
+    }),
+}));
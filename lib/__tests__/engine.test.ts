@@ -0,0 +1,414 @@
+import {
+  canPick,
+  createGame,
+  createGrid,
+  gameReducer,
+  type GameState,
+  getNeighbors,
+  getNextMineCount,
+  getScoringHider,
+  hasCommitmentMismatch,
+  restoreGame,
+} from "@/lib/engine";
+import { DOUBLE_PICK_BONUS } from "@/lib/powerups";
+
+const PLAYERS = ["Ana", "Ben", "Cy"];
+
+function newGame(settings = {}): GameState {
+  return createGame({ players: PLAYERS, seed: 42, settings });
+}
+
+function safeIndex(state: GameState, skip = 0): number {
+  return state.grid.filter((tile) => !tile.isMine && !tile.isRevealed)[skip].id;
+}
+
+function mineIndex(state: GameState): number {
+  return state.grid.find((tile) => tile.isMine)!.id;
+}
+
+function revealAllBut(state: GameState, keep: number[]): GameState {
+  return {
+    ...state,
+    grid: state.grid.map((tile) => ({ ...tile, isRevealed: !keep.includes(tile.id) })),
+  };
+}
+
+function withShield(state: GameState, player: string): GameState {
+  return { ...state, inventory: { [player]: { shield: 1, skip: 0 } } };
+}
+
+describe("pick", () => {
+  it("reveals a safe tile and spends a pick", () => {
+    const state = newGame();
+    const index = safeIndex(state);
+    const next = gameReducer(state, { type: "pick", index, at: 5 });
+    expect(next.grid[index].isRevealed).toBe(true);
+    expect(next.picksLeft).toBe(state.picksLeft - 1);
+    expect(next.events.at(-1)).toEqual({
+      type: "pick",
+      at: 5,
+      player: "Ana",
+      index,
+      isMine: false,
+      powerUp: undefined,
+    });
+  });
+
+  it("slaps the current player on a mine", () => {
+    const state = newGame();
+    const next = gameReducer(state, { type: "pick", index: mineIndex(state) });
+    expect(next.isGameOver).toBe(true);
+    expect(next.slappedPlayer).toBe("Ana");
+    expect(next.events.at(-1)).toMatchObject({ type: "slap", player: "Ana" });
+  });
+
+  it("ignores revealed tiles and picks past the turn limit", () => {
+    let state = newGame({ picksPerTurn: 1 });
+    const index = safeIndex(state);
+    state = gameReducer(state, { type: "pick", index });
+    expect(gameReducer(state, { type: "pick", index })).toBe(state);
+    expect(gameReducer(state, { type: "pick", index: safeIndex(state) })).toBe(state);
+  });
+});
+
+describe("endTurn", () => {
+  it("needs the minimum picks before passing", () => {
+    const state = newGame();
+    expect(gameReducer(state, { type: "endTurn" })).toBe(state);
+  });
+
+  it("passes to the next player with a fresh pick count", () => {
+    let state = newGame();
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    const next = gameReducer(state, { type: "endTurn", at: 9 });
+    expect(next.currentPlayerIndex).toBe(1);
+    expect(next.picksLeft).toBe(3);
+    expect(next.turn).toBe(state.turn + 1);
+    expect(next.events.at(-1)).toEqual({ type: "endTurn", at: 9, player: "Ana" });
+  });
+});
+
+describe("proximity numbers", () => {
+  it("counts mines among the eight surrounding tiles", () => {
+    expect(getNeighbors(0, 3, 3)).toEqual([1, 3, 4]);
+    expect(getNeighbors(4, 3, 3)).toHaveLength(8);
+    const grid = createGrid(3, 3, [0, 8]);
+    expect(grid.map((tile) => tile.adjacentMines)).toEqual([0, 1, 0, 1, 2, 1, 0, 1, 0]);
+  });
+});
+
+describe("power-ups", () => {
+  const state = newGame({ shieldCount: 1, skipCount: 1, doubleCount: 1, reverseCount: 1 });
+  const pickKind = (from: GameState, kind: string) =>
+    gameReducer(from, { type: "pick", index: from.grid.find((tile) => tile.kind === kind)!.id });
+
+  it("banks shields and skips in the picker's inventory", () => {
+    const next = pickKind(pickKind(state, "shield"), "skip");
+    expect(next.inventory.Ana).toEqual({ shield: 1, skip: 1 });
+    expect(next.events.at(-1)).toMatchObject({ type: "pick", powerUp: "skip" });
+  });
+
+  it("grants extra picks on a double and flips play on a reverse", () => {
+    expect(pickKind(state, "double").picksLeft).toBe(state.picksLeft - 1 + DOUBLE_PICK_BONUS);
+    const next = gameReducer(pickKind(state, "reverse"), { type: "endTurn" });
+    expect(next.direction).toBe(-1);
+    expect(next.players[next.currentPlayerIndex]).toBe("Cy");
+  });
+
+  it("spends a shield to survive a mine and pass the turn", () => {
+    const twoMines = withShield(newGame({ mineCount: 2 }), "Ana");
+    const next = gameReducer(twoMines, { type: "pick", index: mineIndex(twoMines) });
+    expect(next.isGameOver).toBe(false);
+    expect(next.inventory.Ana.shield).toBe(0);
+    expect(next.players[next.currentPlayerIndex]).toBe("Ben");
+    expect(next.events.at(-2)).toMatchObject({ type: "pick", isMine: true, shielded: true });
+  });
+
+  it("spends a skip to pass without picking", () => {
+    expect(gameReducer(state, { type: "useSkip" })).toBe(state);
+    const next = gameReducer(pickKind(state, "skip"), { type: "useSkip" });
+    expect(next.inventory.Ana.skip).toBe(0);
+    expect(next.events.at(-1)).toMatchObject({ type: "skip", player: "Ana" });
+  });
+});
+
+describe("push your luck", () => {
+  it("grows the pot with each safe pick and banks it on end turn", () => {
+    let state = newGame({ banking: true });
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    expect(state.pot).toBe(1 + 2);
+    state = gameReducer(state, { type: "endTurn", at: 9 });
+    expect(state.scores).toEqual({ Ana: 3 });
+    expect(state.pot).toBe(0);
+    expect(state.events.at(-1)).toEqual({ type: "endTurn", at: 9, player: "Ana", banked: 3 });
+  });
+
+  it("loses the pot on a slap", () => {
+    let state = newGame({ banking: true });
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    state = gameReducer(state, { type: "pick", index: mineIndex(state) });
+    expect(state.pot).toBe(0);
+    expect(state.scores).toEqual({});
+    expect(state.events.at(-1)).toMatchObject({ type: "slap", lostPot: 1 });
+  });
+
+  it("loses the pot without banking it when a shield blocks a mine", () => {
+    let state = withShield(newGame({ banking: true, mineCount: 2 }), "Ana");
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    state = gameReducer(state, { type: "pick", index: mineIndex(state), at: 9 });
+    expect(state.isGameOver).toBe(false);
+    expect(state.pot).toBe(0);
+    expect(state.scores).toEqual({});
+    expect(state.players[state.currentPlayerIndex]).toBe("Ben");
+    expect(state.events.at(-1)).toEqual({ type: "endTurn", at: 9, player: "Ana" });
+  });
+
+  it("crowns the first player to reach the target", () => {
+    let state = newGame({ banking: true, targetScore: 10 });
+    state = { ...state, scores: { Ana: 9 } };
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    state = gameReducer(state, { type: "endTurn" });
+    expect(state.winner).toBe("Ana");
+    expect(canPick(state, safeIndex(state))).toBe(false);
+  });
+});
+
+describe("mine ramp", () => {
+  const slapAndDeal = (state: GameState, seed: number) =>
+    gameReducer(gameReducer(state, { type: "pick", index: mineIndex(state) }), {
+      type: "dismissSlap",
+      seed,
+    });
+
+  it("adds mines after every slap by default", () => {
+    let state = newGame({ mineRampStep: 2 });
+    state = gameReducer(state, { type: "pick", index: mineIndex(state) });
+    expect(getNextMineCount(state)).toBe(3);
+    state = gameReducer(state, { type: "dismissSlap", seed: 7 });
+    expect(state.settings.mineCount).toBe(3);
+    expect(state.grid.filter((tile) => tile.isMine)).toHaveLength(3);
+  });
+
+  it("waits for the round interval when one is set", () => {
+    let state = slapAndDeal(newGame({ mineRampStep: 1, mineRampRounds: 2 }), 7);
+    expect(state.settings.mineCount).toBe(1);
+    state = slapAndDeal(state, 8);
+    expect(state.settings.mineCount).toBe(2);
+  });
+
+  it("stops at the mine cap", () => {
+    let state = newGame({ rows: 3, columns: 3, mineCount: 3, mineRampStep: 5 });
+    state = slapAndDeal(state, 7);
+    expect(state.settings.mineCount).toBe(3);
+  });
+
+  it("drops back to the starting count for a new game", () => {
+    let state = newGame({ elimination: true, mineRampStep: 1 });
+    state = slapAndDeal(slapAndDeal(state, 7), 8);
+    expect(state.winner).not.toBeNull();
+    expect(gameReducer(state, { type: "reset", seed: 11 }).settings.mineCount).toBe(1);
+  });
+});
+
+describe("handicaps", () => {
+  const handicapped = () =>
+    newGame({
+      mineCount: 2,
+      handicaps: { Ana: { picksPerTurn: 5, minPicksPerTurn: 2 }, Ben: { bonusMine: true } },
+    });
+
+  it("gives each player their own pick limits", () => {
+    let state = handicapped();
+    expect(state.picksLeft).toBe(5);
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    expect(gameReducer(state, { type: "endTurn" })).toBe(state);
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    expect(gameReducer(state, { type: "endTurn" }).picksLeft).toBe(3);
+  });
+
+  it("lets the bonus mine slap only its handicapped player", () => {
+    const state = handicapped();
+    const bonusMine = state.bonusMine!;
+    expect(state.grid[bonusMine].isMine).toBe(false);
+    expect(gameReducer(state, { type: "pick", index: bonusMine }).isGameOver).toBe(false);
+    const bensTurn = { ...state, currentPlayerIndex: 1 };
+    const next = gameReducer(bensTurn, { type: "pick", index: bonusMine });
+    expect(next.slappedPlayer).toBe("Ben");
+    expect(next.grid[bonusMine]).toMatchObject({ kind: "mine", isMine: true });
+  });
+
+  it("restores a revealed bonus mine without counting it as a board mine", () => {
+    const state = handicapped();
+    const bonusMine = state.bonusMine!;
+    const shielded = withShield({ ...state, currentPlayerIndex: 1 }, "Ben");
+    const picked = gameReducer(shielded, { type: "pick", index: bonusMine });
+    const restored = restoreGame(JSON.parse(JSON.stringify(picked)))!;
+    expect(restored.grid).toEqual(picked.grid);
+    expect(restored.grid.filter((tile) => tile.isMine && tile.id !== bonusMine)).toHaveLength(2);
+    expect(hasCommitmentMismatch(restored)).toBe(false);
+  });
+});
+
+describe("timeout", () => {
+  const log = (state: GameState) =>
+    state.events
+      .slice(1)
+      .map((event) => ("player" in event ? `${event.type}:${event.player}` : ""));
+
+  it("auto-picks the minimum and ends the turn", () => {
+    const next = gameReducer(newGame(), { type: "timeout", seed: 3 });
+    expect(log(next)).toEqual(["pick:Ana", "endTurn:Ana"]);
+    expect(next.players[next.currentPlayerIndex]).toBe("Ben");
+  });
+
+  it("stops once a shielded mine passes the turn", () => {
+    const state = newGame({ rows: 3, columns: 3, mineCount: 3 });
+    const mines = state.grid.filter((tile) => tile.isMine).map((tile) => tile.id);
+    const next = gameReducer(withShield(revealAllBut(state, mines), "Ana"), {
+      type: "timeout",
+      seed: 3,
+    });
+    expect(log(next)).toEqual(["pick:Ana", "endTurn:Ana"]);
+    expect(next.players[next.currentPlayerIndex]).toBe("Ben");
+    expect(next.isGameOver).toBe(false);
+  });
+});
+
+describe("dismissSlap", () => {
+  it("does nothing while a round is in play", () => {
+    const state = newGame();
+    expect(gameReducer(state, { type: "dismissSlap", seed: 7 })).toBe(state);
+  });
+
+  it("deals a new round after a slap", () => {
+    let state = newGame();
+    state = gameReducer(state, { type: "pick", index: mineIndex(state) });
+    const next = gameReducer(state, { type: "dismissSlap", seed: 7 });
+    expect(next.isGameOver).toBe(false);
+    expect(next.slappedPlayer).toBeNull();
+    expect(next.seed).toBe(7);
+    expect(next.round).toBe(2);
+    expect(next.currentPlayerIndex).toBe(1);
+    expect(next.grid.some((tile) => tile.isRevealed)).toBe(false);
+    expect(next.events).toHaveLength(1);
+  });
+
+  it("knocks out the slapped player in elimination mode", () => {
+    let state = newGame({ elimination: true });
+    state = gameReducer(state, { type: "pick", index: mineIndex(state) });
+    const next = gameReducer(state, { type: "dismissSlap", seed: 7 });
+    expect(next.eliminated).toEqual(["Ana"]);
+    expect(next.events[0]).toMatchObject({ type: "deal", players: ["Ben", "Cy"] });
+  });
+});
+
+describe("reset", () => {
+  it("redeals with new settings and a new player list", () => {
+    let state = newGame();
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    const next = gameReducer(state, {
+      type: "reset",
+      seed: 11,
+      settings: { mineCount: 3 },
+      players: ["Ana", "Ben"],
+    });
+    expect(next.seed).toBe(11);
+    expect(next.grid.filter((tile) => tile.isMine)).toHaveLength(3);
+    expect(next.grid.some((tile) => tile.isRevealed)).toBe(false);
+    expect(next.settings.mineCount).toBe(3);
+    expect(next.baseMineCount).toBe(3);
+    expect(next.players).toEqual(["Ana", "Ben"]);
+    expect(next.picksLeft).toBe(3);
+  });
+
+  it("never hands the turn to an eliminated player after reseating", () => {
+    let state = newGame({ elimination: true });
+    state = gameReducer(state, { type: "pick", index: mineIndex(state) });
+    state = gameReducer(state, { type: "dismissSlap", seed: 7 });
+    const next = gameReducer(state, { type: "reset", seed: 11, players: ["Cy", "Ana", "Ben"] });
+    expect(next.eliminated).toEqual(["Ana"]);
+    expect(next.players[next.currentPlayerIndex]).toBe("Ben");
+  });
+
+  it("starts over after a winner", () => {
+    let state = newGame({ elimination: true });
+    for (const seed of [7, 8]) {
+      state = gameReducer(state, { type: "pick", index: mineIndex(state) });
+      state = gameReducer(state, { type: "dismissSlap", seed });
+    }
+    expect(state.winner).not.toBeNull();
+    const next = gameReducer(state, { type: "reset", seed: 11 });
+    expect(next.winner).toBeNull();
+    expect(next.eliminated).toEqual([]);
+    expect(next.round).toBe(1);
+  });
+});
+
+describe("hider mode", () => {
+  const placed = () => gameReducer(newGame({ hider: true }), { type: "placeMines", mines: [4] });
+
+  it("waits for the hider to place mines before anyone picks", () => {
+    const state = newGame({ hider: true });
+    expect(state.hider).toBe("Ana");
+    expect(state.isPlacing).toBe(true);
+    expect(state.commitment).toBe("");
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(gameReducer(state, { type: "pick", index: 0 })).toBe(state);
+    expect(gameReducer(state, { type: "placeMines", mines: [1, 2] })).toBe(state);
+  });
+
+  it("deals the placed layout and commits to it", () => {
+    const state = placed();
+    expect(state.isPlacing).toBe(false);
+    expect(state.grid.filter((tile) => tile.isMine).map((tile) => tile.id)).toEqual([4]);
+    expect(state.commitment).not.toBe("");
+    expect(state.events[0]).toMatchObject({ type: "deal", hider: "Ana", players: ["Ben", "Cy"] });
+  });
+
+  it("skips the hider when passing turns", () => {
+    let state = placed();
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    state = gameReducer(state, { type: "endTurn" });
+    state = gameReducer(state, { type: "pick", index: safeIndex(state) });
+    state = gameReducer(state, { type: "endTurn" });
+    expect(state.players[state.currentPlayerIndex]).toBe("Ben");
+  });
+
+  it("scores the hider for a quick slap and rotates the role", () => {
+    let state = gameReducer(placed(), { type: "pick", index: 4 });
+    expect(getScoringHider(state)).toBe("Ana");
+    state = gameReducer(state, { type: "dismissSlap", seed: 7 });
+    expect(state.hider).toBe("Ben");
+    expect(state.isPlacing).toBe(true);
+  });
+
+  it("stops auto-picking once a shielded last mine starts the next placement", () => {
+    const state = withShield(revealAllBut(placed(), [4]), "Ben");
+    const next = gameReducer(state, { type: "timeout", seed: 3 });
+    expect(next.isPlacing).toBe(true);
+    expect(next.hider).toBe("Ben");
+    expect(next.round).toBe(2);
+    expect(gameReducer(next, { type: "timeout", seed: 3 })).toBe(next);
+  });
+});
+
+describe("restoreGame", () => {
+  const snapshot = () => JSON.parse(JSON.stringify(newGame()));
+
+  it("keeps the saved commitment for an untouched board", () => {
+    const state = restoreGame(snapshot())!;
+    expect(state.commitment).toBe(newGame().commitment);
+    expect(hasCommitmentMismatch(state)).toBe(false);
+  });
+
+  it("flags a board whose mines moved since the commitment", () => {
+    const saved = snapshot();
+    const mine = saved.grid.findIndex((tile: { isMine: boolean }) => tile.isMine);
+    saved.grid[mine].isMine = false;
+    saved.grid[(mine + 1) % saved.grid.length].isMine = true;
+    const state = restoreGame(saved)!;
+    expect(state.commitment).toBe(newGame().commitment);
+    expect(hasCommitmentMismatch(state)).toBe(true);
+  });
+});
@@ -0,0 +1,36 @@
+import { commitLayout, deriveSalt, type Layout, verifyCommitment } from "@/lib/fairness";
+
+const LAYOUT: Layout = {
+  rows: 3,
+  columns: 3,
+  mines: [7, 2],
+  powerUps: [{ index: 4, kind: "shield" }],
+  bonusMine: null,
+};
+
+describe("commitLayout", () => {
+  it("ignores the order mines and power-ups were listed in", () => {
+    expect(commitLayout(LAYOUT, "salt")).toBe(commitLayout({ ...LAYOUT, mines: [2, 7] }, "salt"));
+  });
+
+  it("changes with the salt, the mines or the bonus mine", () => {
+    const commitment = commitLayout(LAYOUT, "salt");
+    expect(commitLayout(LAYOUT, "pepper")).not.toBe(commitment);
+    expect(commitLayout({ ...LAYOUT, mines: [2, 8] }, "salt")).not.toBe(commitment);
+    expect(commitLayout({ ...LAYOUT, bonusMine: 5 }, "salt")).not.toBe(commitment);
+  });
+
+  it("verifies only the committed layout", () => {
+    const commitment = commitLayout(LAYOUT, "salt");
+    expect(verifyCommitment(commitment, LAYOUT, "salt")).toBe(true);
+    expect(verifyCommitment(commitment, { ...LAYOUT, mines: [2, 8] }, "salt")).toBe(false);
+  });
+});
+
+describe("deriveSalt", () => {
+  it("chains deterministically from the previous salt", () => {
+    expect(deriveSalt("abc", 1)).toBe(deriveSalt("abc", 1));
+    expect(deriveSalt("abc", 1)).not.toBe(deriveSalt("abc", 2));
+    expect(deriveSalt("abc", 1)).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
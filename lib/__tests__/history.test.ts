@@ -0,0 +1,110 @@
+import { createGame, gameReducer, type GameState } from "@/lib/engine";
+import {
+  computePlayerStats,
+  createRoundRecord,
+  groupSessions,
+  type RoundRecord,
+} from "@/lib/history";
+
+function round(
+  sessionId: string,
+  finishedAt: number,
+  slappedPlayer: string,
+  safePicksByPlayer: Record<string, number>
+): RoundRecord {
+  const players = Object.keys(safePicksByPlayer);
+  return {
+    id: `${sessionId}-${finishedAt}`,
+    sessionId,
+    finishedAt,
+    players,
+    rows: 5,
+    columns: 5,
+    mineCount: 1,
+    slappedPlayer,
+    picksBeforeMine: Object.values(safePicksByPlayer).reduce((sum, count) => sum + count, 0),
+    safePicksByPlayer,
+  };
+}
+
+describe("createRoundRecord", () => {
+  it("counts the safe picks of everyone who played the round", () => {
+    let state: GameState = createGame({ players: ["Ana", "Ben"], seed: 42, sessionId: "s1" });
+    const safe = state.grid.filter((tile) => !tile.isMine).map((tile) => tile.id);
+    state = gameReducer(state, { type: "pick", index: safe[0] });
+    state = gameReducer(state, { type: "pick", index: safe[1] });
+    state = gameReducer(state, { type: "endTurn" });
+    state = gameReducer(state, { type: "pick", index: state.grid.find((tile) => tile.isMine)!.id });
+    expect(createRoundRecord(state, 1000)).toEqual({
+      id: "s1-1-1000",
+      sessionId: "s1",
+      finishedAt: 1000,
+      players: ["Ana", "Ben"],
+      rows: 5,
+      columns: 5,
+      mineCount: 1,
+      slappedPlayer: "Ben",
+      picksBeforeMine: 2,
+      safePicksByPlayer: { Ana: 2, Ben: 0 },
+    });
+  });
+});
+
+describe("groupSessions", () => {
+  it("returns nothing for an empty history", () => {
+    expect(groupSessions([])).toEqual([]);
+  });
+
+  it("groups rounds by session with the newest session first", () => {
+    const rounds = [
+      round("b", 500, "Cy", { Ana: 1, Cy: 0 }),
+      round("a", 100, "Ana", { Ana: 0, Ben: 2 }),
+      round("a", 300, "Ben", { Ben: 0, Cy: 3 }),
+    ];
+    const sessions = groupSessions(rounds);
+    expect(sessions.map((session) => session.sessionId)).toEqual(["b", "a"]);
+    expect(sessions[1]).toMatchObject({ startedAt: 100, players: ["Ana", "Ben", "Cy"] });
+    expect(sessions[1].rounds.map((entry) => entry.finishedAt)).toEqual([100, 300]);
+  });
+});
+
+describe("computePlayerStats", () => {
+  it("returns nothing for an empty history", () => {
+    expect(computePlayerStats([])).toEqual([]);
+  });
+
+  it("adds up rounds, slaps and safe picks per player across sessions", () => {
+    const stats = computePlayerStats([
+      round("a", 100, "Ben", { Ana: 2, Ben: 1 }),
+      round("a", 200, "Ana", { Ana: 1, Ben: 3 }),
+      round("b", 300, "Ana", { Ana: 0, Ben: 4 }),
+    ]);
+    expect(stats).toEqual([
+      {
+        name: "Ana",
+        roundsPlayed: 3,
+        slaps: 2,
+        slapRate: 2 / 3,
+        averagePicksSurvived: 1,
+        longestSafeStreak: 3,
+      },
+      {
+        name: "Ben",
+        roundsPlayed: 3,
+        slaps: 1,
+        slapRate: 1 / 3,
+        averagePicksSurvived: 8 / 3,
+        longestSafeStreak: 7,
+      },
+    ]);
+  });
+
+  it("reads rounds in finishing order for streaks", () => {
+    const stats = computePlayerStats([
+      round("a", 300, "Cy", { Cy: 1 }),
+      round("a", 100, "Dee", { Cy: 5, Dee: 0 }),
+      round("a", 200, "Dee", { Cy: 4, Dee: 0 }),
+    ]);
+    expect(stats.find((entry) => entry.name === "Cy")!.longestSafeStreak).toBe(10);
+  });
+});
@@ -0,0 +1,64 @@
+import { createGame, gameReducer } from "@/lib/engine";
+import { claimSeat, createPublicState, recordCommitment } from "@/lib/network";
+
+describe("recordCommitment", () => {
+  const game = createGame({ players: ["Ana", "Ben"], seed: 42 });
+  const mine = game.grid.find((tile) => tile.isMine)!.id;
+  const safe = game.grid.find((tile) => !tile.isMine)!.id;
+
+  it("keeps the commitment seen before the reveal", () => {
+    const dealt = recordCommitment({}, createPublicState(game));
+    expect(dealt).toEqual({ 1: game.commitment });
+    const slapped = createPublicState(gameReducer(game, { type: "pick", index: mine }));
+    expect(recordCommitment(dealt, { ...slapped, commitment: "forged" })).toBe(dealt);
+  });
+
+  it("ignores a swapped commitment mid-round but accepts a fresh deal", () => {
+    const dealt = recordCommitment({}, createPublicState(game));
+    const picked = createPublicState(gameReducer(game, { type: "pick", index: safe }));
+    expect(recordCommitment(dealt, { ...picked, commitment: "forged" })).toBe(dealt);
+    const redealt = createPublicState(gameReducer(game, { type: "reset", seed: 7 }));
+    expect(recordCommitment(dealt, redealt)).toEqual({ 1: redealt.commitment });
+  });
+
+  it("has nothing to keep for a guest who arrives after the reveal", () => {
+    const slapped = createPublicState(gameReducer(game, { type: "pick", index: mine }));
+    expect(recordCommitment({}, slapped)).toEqual({});
+  });
+});
+
+describe("createPublicState", () => {
+  const game = createGame({ players: ["Ana", "Ben"], seed: 42, settings: { shieldCount: 1 } });
+  const mine = game.grid.find((tile) => tile.isMine)!.id;
+
+  it("hides mines, power-ups and the salt until the slap", () => {
+    const hidden = createPublicState(game);
+    expect(hidden.grid.every((tile) => tile.kind === "safe" && !tile.isMine)).toBe(true);
+    expect(hidden).toMatchObject({ salt: null, layout: null, lastEvent: null });
+    expect(hidden).not.toHaveProperty("seed");
+    const slapped = createPublicState(gameReducer(game, { type: "pick", index: mine }));
+    expect(slapped.salt).toBe(game.salt);
+    expect(slapped.layout?.mines).toEqual([mine]);
+  });
+
+  it("sends the time left on the host's turn timer", () => {
+    jest.spyOn(Date, "now").mockReturnValue(1000);
+    expect(createPublicState(game, 6000).turnMsLeft).toBe(5000);
+    expect(createPublicState(game, 500).turnMsLeft).toBe(0);
+    expect(createPublicState(game).turnMsLeft).toBeNull();
+    jest.restoreAllMocks();
+  });
+});
+
+describe("claimSeat", () => {
+  const game = { players: ["Ana", "Ben", "Bot"], bots: { Bot: "easy" as const } };
+
+  it("gives each person one seat and keeps bots unclaimed", () => {
+    const seats = claimSeat({}, "a", "Ana", game);
+    expect(seats).toEqual({ a: "Ana" });
+    expect(claimSeat(seats, "b", "Ana", game)).toBe(seats);
+    expect(claimSeat(seats, "a", "Ben", game)).toEqual({ a: "Ben" });
+    expect(claimSeat(seats, "b", "Bot", game)).toEqual(seats);
+    expect(claimSeat(seats, "a", null, game)).toEqual({});
+  });
+});
@@ -0,0 +1,70 @@
+import { createGame, type GameState } from "@/lib/engine";
+import { formatChance, getDangerLevel, getRiskOdds } from "@/lib/odds";
+
+function reveal(state: GameState, indices: number[]): GameState {
+  return {
+    ...state,
+    grid: state.grid.map((tile) =>
+      indices.includes(tile.id) ? { ...tile, isRevealed: true } : tile
+    ),
+  };
+}
+
+describe("getRiskOdds", () => {
+  const state = createGame({
+    players: ["Ana", "Ben"],
+    seed: 42,
+    settings: { rows: 3, columns: 3, mineCount: 2 },
+  });
+
+  it("gives the chance of hitting a mine on the next pick", () => {
+    expect(getRiskOdds(state)).toMatchObject({ hiddenTiles: 9, hiddenMines: 2 });
+    expect(getRiskOdds(state).mineChance).toBeCloseTo(2 / 9);
+  });
+
+  it("chains survival over the picks left", () => {
+    expect(getRiskOdds(state).survivalChance).toBeCloseTo((7 / 9) * (6 / 8) * (5 / 7));
+    expect(getRiskOdds(state, 1).survivalChance).toBeCloseTo(7 / 9);
+  });
+
+  it("only counts mines still hidden", () => {
+    const safe = state.grid.filter((tile) => !tile.isMine).map((tile) => tile.id);
+    expect(getRiskOdds(reveal(state, safe.slice(0, 3)))).toMatchObject({ hiddenTiles: 6 });
+    expect(getRiskOdds(reveal(state, safe)).survivalChance).toBe(0);
+  });
+});
+
+describe("formatChance", () => {
+  it("never rounds a live risk to 0% or 100%", () => {
+    expect(formatChance(0.004)).toBe("<1%");
+    expect(formatChance(0.996)).toBe(">99%");
+    expect(formatChance(0)).toBe("0%");
+    expect(formatChance(0.25)).toBe("25%");
+  });
+});
+
+describe("getDangerLevel", () => {
+  it("rises with mine density", () => {
+    expect(getDangerLevel({ rows: 5, columns: 5, mineCount: 1 }).label).toBe("Calm");
+    expect(getDangerLevel({ rows: 5, columns: 5, mineCount: 4 }).label).toBe("Risky");
+    expect(getDangerLevel({ rows: 5, columns: 5, mineCount: 10 }).label).toBe("Deadly");
+  });
+});
+
+describe("getRiskOdds with a bonus mine", () => {
+  const state = createGame({
+    players: ["Ana", "Ben"],
+    seed: 42,
+    settings: { mineCount: 2, handicaps: { Ben: { bonusMine: true } } },
+  });
+
+  it("counts the bonus mine only on its player's turn", () => {
+    expect(getRiskOdds(state).hiddenMines).toBe(2);
+    expect(getRiskOdds({ ...state, currentPlayerIndex: 1 }).hiddenMines).toBe(3);
+  });
+
+  it("drops the bonus mine once its tile is revealed", () => {
+    const revealed = reveal({ ...state, currentPlayerIndex: 1 }, [state.bonusMine!]);
+    expect(getRiskOdds(revealed).hiddenMines).toBe(2);
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  decodeSetupPayload,
+  encodeSetupPayload,
+  type SetupPayload,
+  toSetupQuery,
+} from "@/lib/payload";
+import { toRoundCode } from "@/lib/rng";
+import { settingsSchema } from "@/lib/session";
+import { DEFAULT_SETTINGS, normalizeSettings } from "@/lib/settings";
+
+const SETUP: SetupPayload = {
+  players: ["Ana", "Bot"],
+  bots: { Bot: "normal" },
+  settings: normalizeSettings({ mineCount: 3, banking: true }),
+  code: toRoundCode(1234),
+};
+
+describe("encodeSetupPayload", () => {
+  it("writes only the rules that differ from the defaults", () => {
+    expect(encodeSetupPayload(SETUP)).toBe(
+      `v1.{"players":["Ana","Bot"],"bots":{"Bot":"normal"},` +
+        `"settings":{"mineCount":3,"banking":true},"code":"${toRoundCode(1234)}"}`
+    );
+    expect(
+      encodeSetupPayload({ players: ["Ana", "Ben"], bots: {}, settings: DEFAULT_SETTINGS })
+    ).toBe('v1.{"players":["Ana","Ben"]}');
+  });
+
+  it("round-trips through decodeSetupPayload", () => {
+    expect(decodeSetupPayload(encodeSetupPayload(SETUP))).toEqual({ ok: true, value: SETUP });
+  });
+});
+
+describe("decodeSetupPayload", () => {
+  it("reads a setup wrapped in an import link", () => {
+    const link = `slapgrid://import?setup=${encodeURIComponent(encodeSetupPayload(SETUP))}`;
+    expect(decodeSetupPayload(link)).toEqual({ ok: true, value: SETUP });
+  });
+
+  it("still reads version 0 invite links", () => {
+    expect(decodeSetupPayload("slapgrid://play?players=Ana,Ben&mines=2")).toEqual({
+      ok: true,
+      value: {
+        players: ["Ana", "Ben"],
+        bots: {},
+        settings: normalizeSettings({ mineCount: 2 }),
+        code: undefined,
+      },
+    });
+  });
+
+  it("explains what's wrong with a bad payload", () => {
+    expect(decodeSetupPayload("hello")).toEqual({
+      ok: false,
+      error: "This isn't a Slap Grid setup",
+    });
+    expect(decodeSetupPayload('v2.{"players":["Ana","Ben"]}')).toEqual({
+      ok: false,
+      error: "This setup comes from a newer version of Slap Grid",
+    });
+    expect(decodeSetupPayload('v1.{"players":["Ana"]}').ok).toBe(false);
+    expect(decodeSetupPayload('v1.{"players":["A","B"],"bots":{"A":"easy","B":"easy"}}')).toEqual({
+      ok: false,
+      error: "A game needs at least one person",
+    });
+  });
+});
+
+describe("toSetupQuery", () => {
+  it("hands the settings screen params it can parse back", () => {
+    const query = toSetupQuery(SETUP);
+    expect(settingsSchema(JSON.parse(query.settings))).toEqual({ ok: true, value: SETUP.settings });
+    expect(JSON.parse(query.bots)).toEqual(SETUP.bots);
+  });
+});
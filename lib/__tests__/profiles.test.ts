@@ -0,0 +1,96 @@
+import {
+  createProfile,
+  EMPTY_ROSTER,
+  findProfileByName,
+  getSelectedProfiles,
+  parseRoster,
+  PROFILE_COLORS,
+  type PlayerProfile,
+  removeFromRoster,
+  renameInRoster,
+  type Roster,
+} from "@/lib/profiles";
+
+const ana: PlayerProfile = { id: "a", name: "Ana", color: PROFILE_COLORS[0] };
+const ben: PlayerProfile = {
+  id: "b",
+  name: "Ben",
+  color: PROFILE_COLORS[1],
+  avatarUri: "file:///ben.jpg",
+};
+const roster: Roster = { profiles: [ana, ben], selectedIds: ["b", "a"] };
+
+describe("createProfile", () => {
+  it("trims the name and cycles through the colours", () => {
+    const profile = createProfile("  Cy ", [ana, ben]);
+    expect(profile.name).toBe("Cy");
+    expect(profile.color).toBe(PROFILE_COLORS[2]);
+    expect(profile.id).not.toBe(createProfile("Cy", [ana, ben]).id);
+    const full = Array.from({ length: PROFILE_COLORS.length }, () => ana);
+    expect(createProfile("Dee", full).color).toBe(PROFILE_COLORS[0]);
+  });
+
+  it("finds existing profiles regardless of case and spacing", () => {
+    expect(findProfileByName(roster.profiles, " ana ")).toBe(ana);
+    expect(findProfileByName(roster.profiles, "Cy")).toBeUndefined();
+  });
+});
+
+describe("renameInRoster", () => {
+  it("renames a profile and keeps its id, colour and avatar", () => {
+    const next = renameInRoster(roster, "b", " Benji ")!;
+    expect(next.profiles[1]).toEqual({ ...ben, name: "Benji" });
+    expect(next.selectedIds).toEqual(roster.selectedIds);
+    expect(roster.profiles[1].name).toBe("Ben");
+  });
+
+  it("allows changing only the case of the same profile", () => {
+    expect(renameInRoster(roster, "a", "ANA")!.profiles[0].name).toBe("ANA");
+  });
+
+  it("refuses blank names and names taken by another profile", () => {
+    expect(renameInRoster(roster, "a", "   ")).toBeNull();
+    expect(renameInRoster(roster, "a", "ben")).toBeNull();
+  });
+});
+
+describe("removeFromRoster", () => {
+  it("drops the profile and its selection", () => {
+    expect(removeFromRoster(roster, "b")).toEqual({ profiles: [ana], selectedIds: ["a"] });
+    expect(removeFromRoster(roster, "zz")).toEqual(roster);
+  });
+});
+
+describe("getSelectedProfiles", () => {
+  it("follows the selection order and skips missing ids", () => {
+    expect(getSelectedProfiles({ ...roster, selectedIds: ["b", "gone", "a"] })).toEqual([ben, ana]);
+  });
+});
+
+describe("parseRoster", () => {
+  it("keeps a valid stored roster as it is", () => {
+    expect(parseRoster(JSON.parse(JSON.stringify(roster)))).toEqual(roster);
+  });
+
+  it("falls back to an empty roster for corrupted data", () => {
+    expect(parseRoster(null)).toEqual(EMPTY_ROSTER);
+    expect(parseRoster("oops")).toEqual(EMPTY_ROSTER);
+    expect(parseRoster({ profiles: "nope", selectedIds: 3 })).toEqual(EMPTY_ROSTER);
+  });
+
+  it("drops broken profiles, duplicate names and stale selections", () => {
+    const stored = {
+      profiles: [
+        ana,
+        { id: "x", name: "", color: "#000" },
+        { id: "y", name: 7, color: "#000" },
+        { id: "z", name: "ANA", color: "#000" },
+        { id: "a", name: "Ann", color: "#000" },
+        null,
+        ben,
+      ],
+      selectedIds: ["a", "x", "a", 4, "b"],
+    };
+    expect(parseRoster(stored)).toEqual({ profiles: [ana, ben], selectedIds: ["a", "b"] });
+  });
+});
@@ -0,0 +1,54 @@
+import { encodeQr } from "@/lib/qr";
+
+// Reference modules for "SLAP" at level M with mask 0, as drawn by a reference encoder.
+const SLAP_MASK_0 = [
+  "#######....##.#######",
+  "#.....#.#.##..#.....#",
+  "#.###.#....#..#.###.#",
+  "#.###.#.....#.#.###.#",
+  "#.###.#.#.###.#.###.#",
+  "#.....#....#..#.....#",
+  "#######.#.#.#.#######",
+  "..........#..........",
+  "#.#.#.#.....#...#..#.",
+  "...###..##.#.#.#..##.",
+  "....###.####.###..###",
+  "#...#....#####.##...#",
+  ".#....##.#.#.###..#.#",
+  "........#.....#..#...",
+  "#######...#.#...#####",
+  "#.....#...#...#....#.",
+  "#.###.#.#.#.#.#.#####",
+  "#.###.#....#.#.#.#.#.",
+  "#.###.#.####.###..#.#",
+  "#.....#..#####.###.#.",
+  "#######.####.###..###",
+];
+
+const draw = (modules: boolean[][]) =>
+  modules.map((row) => row.map((isDark) => (isDark ? "#" : ".")).join(""));
+
+describe("encodeQr", () => {
+  it("matches a reference encoding", () => {
+    expect(draw(encodeQr("SLAP", 0))).toEqual(SLAP_MASK_0);
+  });
+
+  it("grows the version with the payload", () => {
+    expect(encodeQr("SLAP")).toHaveLength(21);
+    expect(encodeQr("x".repeat(15))).toHaveLength(25);
+    expect(encodeQr("x".repeat(300)).length).toBeGreaterThan(41);
+  });
+
+  it("keeps the finder patterns whichever mask wins", () => {
+    const modules = draw(encodeQr(`v1.${JSON.stringify({ players: ["Ana", "Ben"] })}`));
+    const size = modules.length;
+    for (const [row, column] of [
+      [0, 0],
+      [0, size - 7],
+      [size - 7, 0],
+    ]) {
+      expect(modules[row].slice(column, column + 7)).toBe("#######");
+      expect(modules[row + 2].slice(column, column + 7)).toBe("#.###.#");
+    }
+  });
+});
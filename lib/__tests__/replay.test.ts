@@ -0,0 +1,75 @@
+import { createGame, gameReducer, type GameState } from "@/lib/engine";
+import { createReplay, describeEvent, getReplayFrame, type ReplayRecord } from "@/lib/replay";
+
+function recordRound(settings = {}): { state: GameState; replay: ReplayRecord } {
+  let state = createGame({ players: ["Ana", "Ben"], seed: 42, settings, at: 1000 });
+  const safe = state.grid.filter((tile) => !tile.isMine).map((tile) => tile.id);
+  const mine = state.grid.find((tile) => tile.isMine)!.id;
+  state = gameReducer(state, { type: "pick", index: safe[0], at: 1500 });
+  state = gameReducer(state, { type: "endTurn", at: 2000 });
+  state = gameReducer(state, { type: "pick", index: safe[1], at: 2600 });
+  state = gameReducer(state, { type: "pick", index: mine, at: 3000 });
+  return { state, replay: createReplay(state, "r1") };
+}
+
+function revealedIds(replay: ReplayRecord, step: number): number[] {
+  const frame = getReplayFrame(replay, step)!;
+  return frame.grid.filter((tile) => tile.isRevealed).map((tile) => tile.id);
+}
+
+describe("getReplayFrame", () => {
+  const { state, replay } = recordRound();
+  const picks = replay.events.filter((event) => event.type === "pick").map((event) => event.index);
+
+  it("starts on the dealt board with nothing revealed", () => {
+    const frame = getReplayFrame(replay, 0)!;
+    expect(frame).toMatchObject({ rows: 5, columns: 5, step: 0, totalSteps: 5, elapsed: 0 });
+    expect(frame.event.type).toBe("deal");
+    expect(frame.grid.map((tile) => tile.isMine)).toEqual(state.grid.map((tile) => tile.isMine));
+    expect(revealedIds(replay, 0)).toEqual([]);
+  });
+
+  it("reveals one more pick per step", () => {
+    expect(revealedIds(replay, 1)).toEqual([picks[0]]);
+    expect(getReplayFrame(replay, 2)).toMatchObject({ elapsed: 1000, event: { type: "endTurn" } });
+    expect(revealedIds(replay, 2)).toEqual([picks[0]]);
+    expect(revealedIds(replay, 3)).toEqual([picks[0], picks[1]].sort((a, b) => a - b));
+  });
+
+  it("ends on the slap with the mine revealed", () => {
+    const frame = getReplayFrame(replay, 5)!;
+    expect(frame.event).toMatchObject({ type: "slap", player: "Ben" });
+    expect(frame.elapsed).toBe(2000);
+    expect(frame.grid.filter((tile) => tile.isRevealed)).toHaveLength(3);
+    expect(frame.grid).toEqual(
+      state.grid.map((tile) => ({ ...tile, isRevealed: picks.includes(tile.id) }))
+    );
+  });
+
+  it("clamps out-of-range steps to the first and last frames", () => {
+    expect(getReplayFrame(replay, -3)).toEqual(getReplayFrame(replay, 0));
+    expect(getReplayFrame(replay, 99)).toEqual(getReplayFrame(replay, 5));
+  });
+
+  it("has no frames without a deal event", () => {
+    expect(getReplayFrame({ ...replay, events: replay.events.slice(1) }, 0)).toBeNull();
+    expect(getReplayFrame({ ...replay, events: [] }, 0)).toBeNull();
+  });
+
+  it("shows proximity numbers only for proximity rounds", () => {
+    expect(getReplayFrame(replay, 0)!.showCount).toBe(false);
+    expect(getReplayFrame(recordRound({ proximity: true }).replay, 0)!.showCount).toBe(true);
+  });
+});
+
+describe("describeEvent", () => {
+  it("names the row and column of each pick", () => {
+    const { replay } = recordRound();
+    const pick = replay.events[1];
+    if (pick.type !== "pick") throw new Error("expected a pick");
+    const row = Math.floor(pick.index / 5) + 1;
+    const column = (pick.index % 5) + 1;
+    expect(describeEvent(pick, 5)).toBe(`Ana picked row ${row}, column ${column} — safe`);
+    expect(describeEvent(replay.events[0], 5)).toBe("Board dealt for Ana, Ben");
+  });
+});
@@ -0,0 +1,46 @@
+import { createRng, parseRoundCode, randomSeed, toRoundCode } from "@/lib/rng";
+
+describe("round codes", () => {
+  it("round-trips seeds through a six-character code", () => {
+    for (const seed of [0, 1, 31, 32, 123456, 2 ** 30 - 1, randomSeed()]) {
+      const code = toRoundCode(seed);
+      expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{6}$/);
+      expect(parseRoundCode(code)).toBe(seed);
+    }
+    expect(toRoundCode(0)).toBe("000000");
+    expect(toRoundCode(2 ** 30 - 1)).toBe("ZZZZZZ");
+  });
+
+  it("forgives case, separators and look-alike letters", () => {
+    const code = toRoundCode(123456);
+    expect(parseRoundCode(`${code.slice(0, 3).toLowerCase()}-${code.slice(3)}`)).toBe(123456);
+    expect(parseRoundCode("OOOOOl")).toBe(parseRoundCode("000001"));
+    expect(parseRoundCode("i 0000 0")).toBe(parseRoundCode("100000"));
+  });
+
+  it("rejects malformed codes", () => {
+    expect(parseRoundCode("")).toBeNull();
+    expect(parseRoundCode("12345")).toBeNull();
+    expect(parseRoundCode("1234567")).toBeNull();
+    expect(parseRoundCode("12345U")).toBeNull();
+    expect(parseRoundCode("12#456")).toBeNull();
+  });
+});
+
+describe("createRng", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const first = createRng(42);
+    const second = createRng(42);
+    const sequence = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+    expect(new Set(sequence).size).toBe(5);
+    for (const value of sequence) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it("gives different seeds different sequences", () => {
+    expect(createRng(1)()).not.toBe(createRng(2)());
+  });
+});
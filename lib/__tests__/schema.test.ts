@@ -0,0 +1,74 @@
+import {
+  array,
+  integer,
+  json,
+  object,
+  oneOf,
+  optional,
+  record,
+  refine,
+  string,
+} from "@/lib/schema";
+
+describe("primitives", () => {
+  it("trims and bounds text", () => {
+    expect(string({ min: 1 })("  Ana ")).toEqual({ ok: true, value: "Ana" });
+    expect(string({ min: 1 })("   ", "name")).toEqual({ ok: false, error: "name is empty" });
+    expect(string({ max: 2 })("abc").ok).toBe(false);
+    expect(string()(["a", "b"], "name")).toEqual({
+      ok: false,
+      error: "name must be a single value",
+    });
+  });
+
+  it("reads whole numbers from route strings", () => {
+    expect(integer({ min: 1 })("3")).toEqual({ ok: true, value: 3 });
+    expect(integer()("3.5").ok).toBe(false);
+    expect(integer({ max: 5 })(6, "mines")).toEqual({
+      ok: false,
+      error: "mines must be at most 5",
+    });
+  });
+
+  it("only accepts listed values", () => {
+    expect(oneOf(["easy", "hard"])("hard")).toEqual({ ok: true, value: "hard" });
+    expect(oneOf(["easy", "hard"])("medium")).toEqual({
+      ok: false,
+      error: "must be easy or hard",
+    });
+  });
+});
+
+describe("combinators", () => {
+  const players = array(string({ min: 1 }), { min: 2, unique: true });
+
+  it("points errors at the failing entry", () => {
+    expect(players(["Ana", ""], "players")).toEqual({
+      ok: false,
+      error: "players[1] is empty",
+    });
+    expect(players(["Ana", "Ana"]).ok).toBe(false);
+    expect(record(integer())({ a: 1, b: "x" }, "scores")).toEqual({
+      ok: false,
+      error: "scores.b must be a whole number",
+    });
+  });
+
+  it("parses JSON params and drops missing optional keys", () => {
+    const schema = object({ players: json(players), code: optional(string()) });
+    expect(schema({ players: '["Ana","Ben"]', code: "" })).toEqual({
+      ok: true,
+      value: { players: ["Ana", "Ben"] },
+    });
+    expect(schema({ players: "[" })).toEqual({
+      ok: false,
+      error: "players is not valid JSON",
+    });
+  });
+
+  it("runs refinements after parsing", () => {
+    const even = refine(integer(), (value) => (value % 2 ? "must be even" : null));
+    expect(even("4")).toEqual({ ok: true, value: 4 });
+    expect(even(3, "count")).toEqual({ ok: false, error: "count must be even" });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  EMPTY_SCORE,
+  getScore,
+  rankPlayers,
+  recordHiderPoint,
+  recordSafePick,
+  recordSlap,
+  type Scoreboard,
+} from "@/lib/scoreboard";
+
+describe("recordSlap", () => {
+  it("gives the slapped player a slap and everyone else a survived round", () => {
+    const board = recordSlap({}, ["Ana", "Ben", "Cy"], "Ben");
+    expect(board).toEqual({
+      Ana: { ...EMPTY_SCORE, roundsSurvived: 1 },
+      Ben: { ...EMPTY_SCORE, slaps: 1 },
+      Cy: { ...EMPTY_SCORE, roundsSurvived: 1 },
+    });
+  });
+
+  it("adds new players and keeps absent ones untouched", () => {
+    const before: Scoreboard = { Ana: { ...EMPTY_SCORE, slaps: 2 }, Dee: { ...EMPTY_SCORE } };
+    const after = recordSlap(before, ["Ana", "Eve"], "Ana");
+    expect(after.Ana.slaps).toBe(3);
+    expect(after.Eve).toEqual({ ...EMPTY_SCORE, roundsSurvived: 1 });
+    expect(after.Dee).toBe(before.Dee);
+    expect(before.Ana.slaps).toBe(2);
+  });
+});
+
+describe("getScore", () => {
+  it("fills fields missing from older saved scoreboards", () => {
+    const stored = JSON.parse('{"Ana":{"slaps":1,"safePicks":4}}') as Scoreboard;
+    expect(getScore(stored, "Ana")).toEqual({ ...EMPTY_SCORE, slaps: 1, safePicks: 4 });
+    expect(getScore(stored, "Ben")).toEqual(EMPTY_SCORE);
+  });
+});
+
+describe("persistence shape", () => {
+  it("stores plain per-player counters that survive a JSON round trip", () => {
+    let board: Scoreboard = {};
+    board = recordSafePick(board, "Ana");
+    board = recordHiderPoint(board, "Ben");
+    board = recordSlap(board, ["Ana", "Ben"], "Ana");
+    expect(JSON.parse(JSON.stringify(board))).toEqual({
+      Ana: { slaps: 1, safePicks: 1, roundsSurvived: 0, hiderPoints: 0 },
+      Ben: { slaps: 0, safePicks: 0, roundsSurvived: 1, hiderPoints: 1 },
+    });
+  });
+});
+
+describe("rankPlayers", () => {
+  it("ranks by fewest slaps, then rounds survived, then safe picks", () => {
+    const board: Scoreboard = {
+      Ana: { ...EMPTY_SCORE, slaps: 1, roundsSurvived: 5 },
+      Ben: { ...EMPTY_SCORE, slaps: 0, roundsSurvived: 2, safePicks: 1 },
+      Cy: { ...EMPTY_SCORE, slaps: 0, roundsSurvived: 2, safePicks: 6 },
+      Dee: { ...EMPTY_SCORE, slaps: 0, roundsSurvived: 3 },
+    };
+    expect(rankPlayers(board, ["Ana", "Ben", "Cy", "Dee"]).map((row) => row.name)).toEqual([
+      "Dee",
+      "Cy",
+      "Ben",
+      "Ana",
+    ]);
+  });
+
+  it("keeps the seating order for full ties and lists new players with empty scores", () => {
+    const board: Scoreboard = { Ana: { ...EMPTY_SCORE, slaps: 1 } };
+    const ranked = rankPlayers(board, ["Cy", "Ana", "Ben"]);
+    expect(ranked.map((row) => row.name)).toEqual(["Cy", "Ben", "Ana"]);
+    expect(ranked[0]).toEqual({ name: "Cy", ...EMPTY_SCORE });
+  });
+});
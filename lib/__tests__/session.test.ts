@@ -0,0 +1,106 @@
+import { createGame } from "@/lib/engine";
+import { toRoundCode } from "@/lib/rng";
+import {
+  createSessionConfig,
+  gameParamsSchema,
+  inviteParamsSchema,
+  remoteParamsSchema,
+  replayParamsSchema,
+  restoreSession,
+  setupParamsSchema,
+  toInviteQuery,
+} from "@/lib/session";
+
+describe("setupParamsSchema", () => {
+  it("accepts players, bots and a round code", () => {
+    const result = setupParamsSchema({
+      players: '["Ana","Bot"]',
+      bots: '{"Bot":"hard"}',
+      code: toRoundCode(1234),
+    });
+    expect(result).toEqual({
+      ok: true,
+      value: { players: ["Ana", "Bot"], bots: { Bot: "hard" }, code: toRoundCode(1234) },
+    });
+    if (!result.ok) throw new Error(result.error);
+    expect(createSessionConfig(result.value, {}).seed).toBe(1234);
+    expect(createSessionConfig(result.value, {}, "ROOM42", "ws://10.0.0.2:8787")).toMatchObject({
+      room: "ROOM42",
+      relay: "ws://10.0.0.2:8787",
+    });
+  });
+
+  it("rejects broken setups", () => {
+    expect(setupParamsSchema({ players: '["Ana"]' }).ok).toBe(false);
+    expect(setupParamsSchema({ players: '["Ana","Ben"]', code: "nope" })).toEqual({
+      ok: false,
+      error: "code is not a 6-character code",
+    });
+    expect(setupParamsSchema({ players: '["Ana","Ben"]', bots: '{"Cy":"easy"}' })).toEqual({
+      ok: false,
+      error: "Bots must also be in the player list",
+    });
+    expect(setupParamsSchema({ players: '["A","B"]', bots: '{"A":"easy","B":"easy"}' })).toEqual({
+      ok: false,
+      error: "A game needs at least one person",
+    });
+  });
+});
+
+describe("route params", () => {
+  it("checks session ids, replay ids and room links", () => {
+    expect(gameParamsSchema({ session: "abc-123" }).ok).toBe(true);
+    expect(gameParamsSchema({ session: "../etc" }).ok).toBe(false);
+    expect(remoteParamsSchema({ room: toRoundCode(99), relay: "ws://10.0.0.2:8787" }).ok).toBe(
+      true
+    );
+    expect(remoteParamsSchema({ room: toRoundCode(99), relay: "http://x" }).ok).toBe(false);
+    expect(replayParamsSchema({ id: "1700000000000-3-1700000090000" }).ok).toBe(true);
+    expect(replayParamsSchema({ id: ["a", "b"] }).ok).toBe(false);
+    expect(replayParamsSchema({}).ok).toBe(false);
+  });
+});
+
+describe("inviteParamsSchema", () => {
+  it("reads comma-separated players from an invite link", () => {
+    const result = inviteParamsSchema({ players: "Ana, Ben", mines: "3", seed: toRoundCode(7) });
+    expect(result).toEqual({
+      ok: true,
+      value: { players: ["Ana", "Ben"], mines: 3, seed: toRoundCode(7) },
+    });
+    if (!result.ok) throw new Error(result.error);
+    expect(inviteParamsSchema(toInviteQuery(result.value))).toEqual(result);
+  });
+
+  it("rejects empty names and duplicates", () => {
+    expect(inviteParamsSchema({ players: "Ana,,Ben" })).toEqual({
+      ok: false,
+      error: "players[1] is empty",
+    });
+    expect(inviteParamsSchema({ players: "Ana,Ana" }).ok).toBe(false);
+  });
+});
+
+describe("restoreSession", () => {
+  const state = JSON.parse(JSON.stringify(createGame({ players: ["Ana", "Ben"], seed: 42 })));
+  const room = toRoundCode(99);
+
+  it("keeps the room, relay and host token of a hosted game", () => {
+    const saved = { state, room, relay: "ws://10.0.0.2:8787", hostToken: "abc" };
+    expect(restoreSession(JSON.parse(JSON.stringify(saved)))).toEqual(saved);
+  });
+
+  it("reads saves that hold only the game state", () => {
+    expect(restoreSession(state)).toEqual({ state });
+  });
+
+  it("drops broken host details but keeps the game", () => {
+    expect(restoreSession({ state, room: "nope", hostToken: "abc" })).toEqual({ state });
+    expect(restoreSession({ state, relay: "ws://10.0.0.2:8787" })).toEqual({ state });
+  });
+
+  it("rejects corrupted saves", () => {
+    expect(restoreSession(null)).toBeNull();
+    expect(restoreSession({ state: { players: "Ana" }, room })).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  BOARD_LIMITS,
+  DEFAULT_SETTINGS,
+  getMineCap,
+  normalizeSettings,
+  parseSettings,
+} from "@/lib/settings";
+
+describe("normalizeSettings", () => {
+  it("fills missing fields from the defaults", () => {
+    expect(normalizeSettings({})).toEqual(DEFAULT_SETTINGS);
+    expect(normalizeSettings({ rows: 6 })).toEqual({ ...DEFAULT_SETTINGS, rows: 6 });
+  });
+
+  it("clamps the board, picks and timers to their limits", () => {
+    const settings = normalizeSettings({
+      rows: 99,
+      columns: 1,
+      picksPerTurn: 50,
+      minPicksPerTurn: 0,
+      turnSeconds: 600,
+      targetScore: 3,
+      mineRampStep: -2,
+      mineRampRounds: 4.7,
+    });
+    expect(settings).toMatchObject({
+      rows: BOARD_LIMITS.maxRows,
+      columns: BOARD_LIMITS.minSide,
+      picksPerTurn: BOARD_LIMITS.maxPicksPerTurn,
+      minPicksPerTurn: 1,
+      turnSeconds: BOARD_LIMITS.maxTurnSeconds,
+      targetScore: BOARD_LIMITS.targetScoreStep,
+      mineRampStep: 0,
+      mineRampRounds: 4,
+    });
+  });
+
+  it("keeps mines, power-ups and picks within the tiles of a small board", () => {
+    const settings = normalizeSettings({
+      rows: 3,
+      columns: 3,
+      mineCount: 20,
+      picksPerTurn: 10,
+      minPicksPerTurn: 9,
+      shieldCount: 4,
+    });
+    expect(settings.mineCount).toBe(8);
+    expect(settings.picksPerTurn).toBe(8);
+    expect(settings.minPicksPerTurn).toBe(8);
+    expect(settings.shieldCount).toBe(0);
+  });
+
+  it("hands out power-ups from the tiles left after the mines", () => {
+    const settings = normalizeSettings({
+      rows: 3,
+      columns: 3,
+      mineCount: 5,
+      shieldCount: 2,
+      skipCount: 2,
+      doubleCount: 2,
+    });
+    expect(settings).toMatchObject({ shieldCount: 2, skipCount: 1, doubleCount: 0 });
+  });
+
+  it("falls back to safe values for invalid fields", () => {
+    const settings = normalizeSettings({
+      rows: Number.NaN,
+      mineCount: "many" as unknown as number,
+      elimination: "yes" as unknown as boolean,
+      handicaps: { Ana: null, Ben: { picksPerTurn: 0, bonusMine: true }, Cy: {} } as never,
+    });
+    expect(settings.rows).toBe(BOARD_LIMITS.minSide);
+    expect(settings.mineCount).toBe(1);
+    expect(settings.elimination).toBe(true);
+    expect(settings.handicaps).toEqual({ Ben: { picksPerTurn: 1, bonusMine: true } });
+  });
+});
+
+describe("getMineCap", () => {
+  it("caps mines at a share of the board", () => {
+    expect(getMineCap(DEFAULT_SETTINGS)).toBe(10);
+    expect(getMineCap(normalizeSettings({ rows: 10, columns: 8 }))).toBe(32);
+    expect(getMineCap(normalizeSettings({ rows: 3, columns: 3 }))).toBe(3);
+  });
+
+  it("leaves room for power-up tiles and never drops below one", () => {
+    const withPowerUps = normalizeSettings({ rows: 3, columns: 3, shieldCount: 4, skipCount: 3 });
+    expect(getMineCap(withPowerUps)).toBe(1);
+    expect(getMineCap(normalizeSettings({ rows: 3, columns: 3, shieldCount: 6 }))).toBe(2);
+    expect(getMineCap({ ...DEFAULT_SETTINGS, rows: 3, columns: 3, shieldCount: 8 })).toBe(1);
+  });
+});
+
+describe("parseSettings", () => {
+  it("reads route JSON and ignores what does not parse", () => {
+    expect(parseSettings('{"rows":4,"banking":true}')).toMatchObject({ rows: 4, banking: true });
+    expect(parseSettings("{oops")).toEqual(DEFAULT_SETTINGS);
+    expect(parseSettings(undefined)).toEqual(DEFAULT_SETTINGS);
+  });
+});
@@ -0,0 +1,15 @@
+import { createHash } from "crypto";
+import { sha256 } from "@/lib/sha256";
+
+describe("sha256", () => {
+  it("matches the published test vectors", () => {
+    expect(sha256("")).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(sha256("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+
+  it("agrees with node across block boundaries and multi-byte text", () => {
+    for (const message of ["a".repeat(55), "b".repeat(56), "c".repeat(64), "Ana·Ben·Cy ✋"]) {
+      expect(sha256(message)).toBe(createHash("sha256").update(message).digest("hex"));
+    }
+  });
+});
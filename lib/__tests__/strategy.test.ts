@@ -0,0 +1,58 @@
+import { createGame, createGrid, gameReducer, type GameState } from "@/lib/engine";
+import { chooseBotMove, estimateMineChance } from "@/lib/strategy";
+
+function reveal(state: GameState, indices: number[]): GameState {
+  return {
+    ...state,
+    grid: state.grid.map((tile) =>
+      indices.includes(tile.id) ? { ...tile, isRevealed: true } : tile
+    ),
+  };
+}
+
+describe("estimateMineChance", () => {
+  const game = createGame({
+    players: ["Bot", "Ana"],
+    seed: 42,
+    settings: { rows: 3, columns: 3, mineCount: 1, proximity: true },
+  });
+  const state = { ...game, grid: createGrid(3, 3, [8]) };
+
+  it("uses the board odds without proximity clues", () => {
+    expect(estimateMineChance(state, 1)).toBeCloseTo(1 / 9);
+  });
+
+  it("clears the tiles around a revealed zero", () => {
+    expect(estimateMineChance(reveal(state, [0]), 1)).toBe(0);
+  });
+
+  it("raises the odds around a revealed number", () => {
+    expect(estimateMineChance(reveal(state, [0, 1, 2, 3, 6, 4]), 8)).toBeCloseTo(1 / 3);
+  });
+});
+
+describe("chooseBotMove", () => {
+  const state = createGame({ players: ["Bot", "Ana"], seed: 42, bots: { Bot: "hard" } });
+
+  it("picks a hidden tile to start the turn", () => {
+    const move = chooseBotMove(state, "hard", 1);
+    expect(move?.type).toBe("pick");
+    if (move?.type === "pick") expect(state.grid[move.index].isRevealed).toBe(false);
+  });
+
+  it("ends the turn once a hard bot has made its minimum picks", () => {
+    const safe = state.grid.find((tile) => !tile.isMine)!.id;
+    const picked = gameReducer(state, { type: "pick", index: safe });
+    expect(chooseBotMove(picked, "hard", 1)).toEqual({ type: "endTurn" });
+  });
+
+  it("spends a skip before picking on hard", () => {
+    const withSkip = { ...state, inventory: { Bot: { shield: 0, skip: 1 } } };
+    expect(chooseBotMove(withSkip, "hard", 1)).toEqual({ type: "useSkip" });
+  });
+
+  it("does nothing once the round is over", () => {
+    const mine = state.grid.find((tile) => tile.isMine)!.id;
+    expect(chooseBotMove(gameReducer(state, { type: "pick", index: mine }), "easy", 1)).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+export type BotDifficulty = "easy" | "normal" | "hard";
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ["easy", "normal", "hard"];
+
+export const BOT_INFO: Record<BotDifficulty, { label: string; hint: string }> = {
+  easy: { label: "Easy", hint: "Uses every pick and guesses blindly" },
+  normal: { label: "Normal", hint: "Takes a few risks and sometimes reads the numbers" },
+  hard: { label: "Hard", hint: "Stops early and avoids tiles the numbers give away" },
+};
+
+const BOT_NAMES = ["Robo", "Chip", "Byte", "Gizmo", "Sprocket", "Widget", "Bolt", "Pixel"];
+
+export function createBotName(takenNames: string[]): string {
+  const taken = new Set(takenNames.map((name) => name.trim().toLocaleLowerCase()));
+  const available = BOT_NAMES.find((name) => !taken.has(name.toLocaleLowerCase()));
+  if (available) return available;
+  let suffix = 2;
+  while (taken.has(`robo ${suffix}`)) suffix++;
+  return `Robo ${suffix}`;
+}
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return BOT_DIFFICULTIES.includes(value as BotDifficulty);
+}
@@ -0,0 +1,844 @@
+import { type BotDifficulty, isBotDifficulty } from "@/lib/bots";
+import { commitLayout, deriveSalt, type Layout, verifyCommitment } from "@/lib/fairness";
+import {
+  DOUBLE_PICK_BONUS,
+  EMPTY_INVENTORY,
+  type Inventory,
+  isPowerUpKind,
+  type PlacedPowerUp,
+  POWER_UP_KINDS,
+  type PowerUpKind,
+} from "@/lib/powerups";
+import { createRng } from "@/lib/rng";
+import {
+  DEFAULT_SETTINGS,
+  type GameSettings,
+  getHandicap,
+  getMineCap,
+  getMinPicksPerTurn,
+  getPicksPerTurn,
+  getTileCount,
+  hasBonusMine,
+  normalizeSettings,
+  POWER_UP_SETTING_KEYS,
+} from "@/lib/settings";
+
+export type TileKind = "safe" | "mine" | PowerUpKind;
+
+export type Tile = {
+  id: number;
+  kind: TileKind;
+  isMine: boolean;
+  isRevealed: boolean;
+  adjacentMines: number;
+};
+
+export type RoundEvent =
+  | {
+      type: "deal";
+      at: number;
+      players: string[];
+      rows: number;
+      columns: number;
+      proximity?: boolean;
+      seed: number;
+      mines: number[];
+      powerUps?: PlacedPowerUp[];
+      commitment?: string;
+      hider?: string;
+      bonusMine?: number | null;
+    }
+  | {
+      type: "pick";
+      at: number;
+      player: string;
+      index: number;
+      isMine: boolean;
+      powerUp?: PowerUpKind;
+      shielded?: boolean;
+    }
+  | { type: "endTurn"; at: number; player: string; banked?: number }
+  | { type: "skip"; at: number; player: string }
+  | { type: "slap"; at: number; player: string; lostPot?: number };
+
+export type RoundPick = Extract<RoundEvent, { type: "pick" }>;
+
+export type GameState = {
+  sessionId: string;
+  players: string[];
+  bots: Record<string, BotDifficulty>;
+  grid: Tile[];
+  seed: number;
+  salt: string;
+  commitment: string;
+  bonusMine: number | null;
+  settings: GameSettings;
+  baseMineCount: number;
+  round: number;
+  turn: number;
+  currentPlayerIndex: number;
+  picksLeft: number;
+  direction: 1 | -1;
+  inventory: Record<string, Inventory>;
+  pot: number;
+  scores: Record<string, number>;
+  events: RoundEvent[];
+  hider: string | null;
+  isPlacing: boolean;
+  slappedPlayer: string | null;
+  isGameOver: boolean;
+  eliminated: string[];
+  winner: string | null;
+};
+
+export type GameAction =
+  | { type: "pick"; index: number; at?: number }
+  | { type: "placeMines"; mines: number[]; at?: number }
+  | { type: "endTurn"; at?: number }
+  | { type: "useSkip"; at?: number }
+  | { type: "timeout"; seed: number; at?: number }
+  | { type: "dismissSlap"; seed: number; salt?: string; at?: number }
+  | {
+      type: "reset";
+      seed: number;
+      salt?: string;
+      settings?: Partial<GameSettings>;
+      players?: string[];
+      at?: number;
+    };
+
+export type NewGameOptions = {
+  players: string[];
+  seed: number;
+  settings?: Partial<GameSettings>;
+  bots?: Record<string, BotDifficulty>;
+  salt?: string;
+  sessionId?: string;
+  at?: number;
+};
+
+function shuffleTiles(tileCount: number, random: () => number): number[] {
+  const indices = Array.from({ length: tileCount }, (_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices;
+}
+
+export function placeMines(
+  tileCount: number,
+  mineCount: number,
+  random: () => number = Math.random
+): number[] {
+  return shuffleTiles(tileCount, random)
+    .slice(0, mineCount)
+    .sort((a, b) => a - b);
+}
+
+export function dealBoard(
+  seed: number,
+  settings: GameSettings,
+  fixedMines?: number[]
+): { mines: number[]; powerUps: PlacedPowerUp[]; bonusMine: number | null } {
+  const shuffled = shuffleTiles(getTileCount(settings), createRng(seed));
+  const mines = (fixedMines ?? shuffled.slice(0, settings.mineCount)).sort((a, b) => a - b);
+  const free = fixedMines
+    ? shuffled.filter((index) => !fixedMines.includes(index))
+    : shuffled.slice(settings.mineCount);
+  const kinds = POWER_UP_KINDS.flatMap((kind) =>
+    Array.from<PowerUpKind>({ length: settings[POWER_UP_SETTING_KEYS[kind]] }).fill(kind)
+  );
+  const powerUps = kinds
+    .map((kind, i) => ({ index: free[i], kind }))
+    .sort((a, b) => a.index - b.index);
+  const bonusMine = hasBonusMine(settings) ? (free[kinds.length] ?? null) : null;
+  return { mines, powerUps, bonusMine };
+}
+
+export function dealMines(seed: number, settings: GameSettings): number[] {
+  return dealBoard(seed, settings).mines;
+}
+
+export function getNeighbors(index: number, rows: number, columns: number): number[] {
+  const row = Math.floor(index / columns);
+  const column = index % columns;
+  const neighbors: number[] = [];
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      const r = row + dr;
+      const c = column + dc;
+      if ((dr || dc) && r >= 0 && r < rows && c >= 0 && c < columns) {
+        neighbors.push(r * columns + c);
+      }
+    }
+  }
+  return neighbors;
+}
+
+export function createGrid(
+  rows: number,
+  columns: number,
+  mines: number[],
+  powerUps: PlacedPowerUp[] = []
+): Tile[] {
+  const mineSet = new Set(mines);
+  const powerUpMap = new Map(powerUps.map((p) => [p.index, p.kind]));
+  return Array.from({ length: rows * columns }, (_, i) => ({
+    id: i,
+    kind: mineSet.has(i) ? "mine" : (powerUpMap.get(i) ?? "safe"),
+    isMine: mineSet.has(i),
+    isRevealed: false,
+    adjacentMines: getNeighbors(i, rows, columns).filter((n) => mineSet.has(n)).length,
+  }));
+}
+
+export function getLayout(state: Pick<GameState, "grid" | "settings" | "bonusMine">): Layout {
+  return {
+    rows: state.settings.rows,
+    columns: state.settings.columns,
+    mines: state.grid
+      .filter((tile) => tile.isMine && tile.id !== state.bonusMine)
+      .map((tile) => tile.id),
+    powerUps: state.grid.flatMap((tile) =>
+      isPowerUpKind(tile.kind) ? [{ index: tile.id, kind: tile.kind }] : []
+    ),
+    bonusMine: state.bonusMine,
+  };
+}
+
+export function hasCommitmentMismatch(
+  state: Pick<GameState, "grid" | "settings" | "bonusMine" | "commitment" | "salt" | "isPlacing">
+): boolean {
+  return !state.isPlacing && !verifyCommitment(state.commitment, getLayout(state), state.salt);
+}
+
+function dealRound(
+  seed: number,
+  settings: GameSettings,
+  players: string[],
+  salt: string,
+  hider: string | null,
+  at = 0
+): Pick<
+  GameState,
+  "grid" | "events" | "salt" | "commitment" | "bonusMine" | "hider" | "isPlacing"
+> {
+  if (hider) {
+    return {
+      grid: createGrid(settings.rows, settings.columns, []),
+      salt,
+      commitment: "",
+      bonusMine: null,
+      events: [],
+      hider,
+      isPlacing: true,
+    };
+  }
+  return { ...dealLayout(seed, settings, players, salt, at), hider: null, isPlacing: false };
+}
+
+function dealLayout(
+  seed: number,
+  settings: GameSettings,
+  players: string[],
+  salt: string,
+  at = 0,
+  hider?: string,
+  fixedMines?: number[]
+): Pick<GameState, "grid" | "events" | "salt" | "commitment" | "bonusMine"> {
+  const { mines, powerUps, bonusMine } = dealBoard(seed, settings, fixedMines);
+  const commitment = commitLayout(
+    { rows: settings.rows, columns: settings.columns, mines, powerUps, bonusMine },
+    salt
+  );
+  return {
+    grid: createGrid(settings.rows, settings.columns, mines, powerUps),
+    salt,
+    commitment,
+    bonusMine,
+    events: [
+      {
+        type: "deal",
+        at,
+        players,
+        rows: settings.rows,
+        columns: settings.columns,
+        proximity: settings.proximity,
+        seed,
+        mines,
+        powerUps,
+        commitment,
+        hider,
+        bonusMine,
+      },
+    ],
+  };
+}
+
+function chooseHider(
+  players: string[],
+  eliminated: string[],
+  settings: GameSettings,
+  previous: string | null
+): string | null {
+  if (!settings.hider) return null;
+  const active = players.filter((player) => !eliminated.includes(player));
+  if (active.length < 2) return null;
+  const start = previous ? players.indexOf(previous) : -1;
+  for (let offset = 1; offset <= players.length; offset++) {
+    const player = players[(start + offset) % players.length];
+    if (!eliminated.includes(player)) return player;
+  }
+  return null;
+}
+
+function firstPickerIndex(
+  state: GameState,
+  hider: string | null,
+  eliminated = state.eliminated
+): number {
+  return nextPlayerIndex(
+    { ...state, hider, currentPlayerIndex: state.players.indexOf(hider ?? "") },
+    eliminated
+  );
+}
+
+export function createGame({
+  players,
+  seed,
+  settings = DEFAULT_SETTINGS,
+  bots = {},
+  salt = deriveSalt(String(seed), seed),
+  sessionId = String(seed),
+  at = 0,
+}: NewGameOptions): GameState {
+  const normalized = normalizeSettings(settings);
+  const hider = chooseHider(players, [], normalized, null);
+  const currentPlayerIndex = hider ? (players.indexOf(hider) + 1) % players.length : 0;
+  return {
+    sessionId,
+    players,
+    bots,
+    ...dealRound(seed, normalized, players, salt, hider, at),
+    seed,
+    settings: normalized,
+    baseMineCount: normalized.mineCount,
+    round: 1,
+    turn: 0,
+    currentPlayerIndex,
+    picksLeft: getPicksPerTurn(normalized, players[currentPlayerIndex] ?? ""),
+    direction: 1,
+    inventory: {},
+    pot: 0,
+    scores: {},
+    slappedPlayer: null,
+    isGameOver: false,
+    eliminated: [],
+    winner: null,
+  };
+}
+
+export function restoreGame(snapshot: unknown): GameState | null {
+  if (!snapshot || typeof snapshot !== "object") return null;
+  const state = snapshot as GameState;
+  if (
+    !Array.isArray(state.players) ||
+    !state.players.every((p) => typeof p === "string") ||
+    !Array.isArray(state.grid) ||
+    typeof state.seed !== "number"
+  ) {
+    return null;
+  }
+  const settings = normalizeSettings(state.settings ?? {});
+  if (state.grid.length !== getTileCount(settings)) return null;
+  const bonusMine =
+    Number.isInteger(state.bonusMine) && state.grid[state.bonusMine as number]
+      ? (state.bonusMine as number)
+      : null;
+  // A revealed bonus mine only slaps its handicapped player, so it stays out of adjacency.
+  const grid = createGrid(
+    settings.rows,
+    settings.columns,
+    state.grid.flatMap((tile, i) => (tile.isMine && i !== bonusMine ? [i] : [])),
+    state.grid.flatMap((tile, i) =>
+      isPowerUpKind(tile.kind) ? [{ index: i, kind: tile.kind }] : []
+    )
+  ).map((tile, i) => {
+    const isRevealed = !!state.grid[i].isRevealed;
+    return i === bonusMine && isRevealed && state.grid[i].isMine
+      ? { ...tile, kind: "mine" as const, isMine: true, isRevealed }
+      : { ...tile, isRevealed };
+  });
+  const salt =
+    typeof state.salt === "string" ? state.salt : deriveSalt(String(state.seed), state.seed);
+  const hider =
+    settings.hider && typeof state.hider === "string" && state.players.includes(state.hider)
+      ? state.hider
+      : null;
+  const isPlacing = !!hider && !!state.isPlacing;
+  return {
+    sessionId: typeof state.sessionId === "string" ? state.sessionId : String(state.seed),
+    players: state.players,
+    bots: restoreBots(state.bots, state.players),
+    grid,
+    seed: state.seed,
+    salt,
+    commitment:
+      typeof state.commitment === "string"
+        ? state.commitment
+        : isPlacing
+          ? ""
+          : commitLayout(getLayout({ grid, settings, bonusMine }), salt),
+    bonusMine,
+    settings,
+    baseMineCount:
+      typeof state.baseMineCount === "number"
+        ? Math.min(settings.mineCount, Math.max(1, Math.floor(state.baseMineCount)))
+        : settings.mineCount,
+    round: Math.max(1, Number(state.round) || 1),
+    turn: Math.max(0, Number(state.turn) || 0),
+    currentPlayerIndex: state.players.length
+      ? Math.abs(Math.floor(Number(state.currentPlayerIndex) || 0)) % state.players.length
+      : 0,
+    picksLeft: Math.max(0, Math.floor(Number(state.picksLeft) || 0)),
+    direction: state.direction === -1 ? -1 : 1,
+    inventory: restoreInventory(state.inventory, state.players),
+    pot: Math.max(0, Math.floor(Number(state.pot) || 0)),
+    scores: restoreScores(state.scores, state.players),
+    events: Array.isArray(state.events) ? state.events : [],
+    hider,
+    isPlacing,
+    slappedPlayer: typeof state.slappedPlayer === "string" ? state.slappedPlayer : null,
+    isGameOver: !!state.isGameOver,
+    eliminated: Array.isArray(state.eliminated)
+      ? state.eliminated.filter((name) => state.players.includes(name))
+      : [],
+    winner: typeof state.winner === "string" ? state.winner : null,
+  };
+}
+
+function restoreBots(raw: unknown, players: string[]): Record<string, BotDifficulty> {
+  const bots: Record<string, BotDifficulty> = {};
+  if (!raw || typeof raw !== "object") return bots;
+  for (const player of players) {
+    const difficulty = (raw as Record<string, unknown>)[player];
+    if (isBotDifficulty(difficulty)) bots[player] = difficulty;
+  }
+  return bots;
+}
+
+function restoreInventory(raw: unknown, players: string[]): Record<string, Inventory> {
+  const inventory: Record<string, Inventory> = {};
+  if (!raw || typeof raw !== "object") return inventory;
+  for (const player of players) {
+    const entry = (raw as Record<string, Partial<Inventory>>)[player];
+    if (!entry) continue;
+    inventory[player] = {
+      shield: Math.max(0, Math.floor(Number(entry.shield) || 0)),
+      skip: Math.max(0, Math.floor(Number(entry.skip) || 0)),
+    };
+  }
+  return inventory;
+}
+
+function restoreScores(raw: unknown, players: string[]): Record<string, number> {
+  const scores: Record<string, number> = {};
+  if (!raw || typeof raw !== "object") return scores;
+  for (const player of players) {
+    const score = Math.floor(Number((raw as Record<string, unknown>)[player]) || 0);
+    if (score > 0) scores[player] = score;
+  }
+  return scores;
+}
+
+export function getRoundPicks(state: Pick<GameState, "events">): RoundPick[] {
+  return state.events.filter((event): event is RoundPick => event.type === "pick");
+}
+
+export function getActivePlayers(
+  state: Pick<GameState, "players" | "eliminated">
+): string[] {
+  return state.players.filter((player) => !state.eliminated.includes(player));
+}
+
+export function getPickers(
+  state: Pick<GameState, "players" | "eliminated" | "hider">
+): string[] {
+  return getActivePlayers(state).filter((player) => player !== state.hider);
+}
+
+export function getScoringHider(state: GameState): string | null {
+  if (!state.hider || !state.slappedPlayer) return null;
+  return getRoundPicks(state).length <= state.settings.hiderPickLimit ? state.hider : null;
+}
+
+export function canPlaceMines(state: GameState, mines: number[]): boolean {
+  return (
+    state.isPlacing &&
+    mines.length === state.settings.mineCount &&
+    new Set(mines).size === mines.length &&
+    mines.every((index) => Number.isInteger(index) && index >= 0 && index < state.grid.length)
+  );
+}
+
+export function getCurrentPlayer(state: GameState): string | undefined {
+  return state.players[state.currentPlayerIndex];
+}
+
+export function canPick(state: GameState, index: number): boolean {
+  const tile = state.grid[index];
+  return (
+    !!tile &&
+    !tile.isRevealed &&
+    !state.isGameOver &&
+    !state.isPlacing &&
+    !state.winner &&
+    state.picksLeft > 0 &&
+    state.players.length > 0
+  );
+}
+
+export function getPicksMade(state: GameState): number {
+  let count = 0;
+  for (let i = state.events.length - 1; i >= 0 && state.events[i].type === "pick"; i--) {
+    count++;
+  }
+  return count;
+}
+
+export function getInventory(state: GameState, player: string): Inventory {
+  return state.inventory[player] ?? EMPTY_INVENTORY;
+}
+
+export function getScore(state: GameState, player: string): number {
+  return state.scores[player] ?? 0;
+}
+
+export function getPickValue(state: GameState): number {
+  return 1 + state.grid.filter((tile) => tile.isRevealed).length;
+}
+
+export function canUseSkip(state: GameState): boolean {
+  const player = getCurrentPlayer(state);
+  return (
+    !!player &&
+    !state.isGameOver &&
+    !state.isPlacing &&
+    !state.winner &&
+    getInventory(state, player).skip > 0
+  );
+}
+
+export function canEndTurn(state: GameState): boolean {
+  return (
+    !state.isGameOver &&
+    !state.isPlacing &&
+    !state.winner &&
+    getPicksMade(state) >= getMinPicks(state)
+  );
+}
+
+function nextPlayerIndex(
+  state: GameState,
+  eliminated = state.eliminated,
+  direction = state.direction
+): number {
+  const count = state.players.length;
+  for (let offset = 1; offset <= count; offset++) {
+    const index = (((state.currentPlayerIndex + offset * direction) % count) + count) % count;
+    const player = state.players[index];
+    if (!eliminated.includes(player) && player !== state.hider) return index;
+  }
+  return Math.max(0, state.players.findIndex((player) => !eliminated.includes(player)));
+}
+
+function getMinPicks(state: GameState): number {
+  return Math.max(1, getMinPicksPerTurn(state.settings, getCurrentPlayer(state) ?? ""));
+}
+
+export function getMinPicksLeft(state: GameState): number {
+  return Math.max(0, getMinPicks(state) - getPicksMade(state));
+}
+
+function getTurnPicks(state: Pick<GameState, "players" | "settings">, index: number): number {
+  return getPicksPerTurn(state.settings, state.players[index] ?? "");
+}
+
+function autoPick(state: GameState, seed: number, at?: number): GameState {
+  const random = createRng(seed);
+  const isSameTurn = (next: GameState) => next.turn === state.turn && !next.isPlacing;
+  let next = state;
+  while (!next.isGameOver && isSameTurn(next) && next.picksLeft > 0 && getMinPicksLeft(next) > 0) {
+    const hidden = next.grid.filter((tile) => !tile.isRevealed);
+    if (hidden.length === 0) break;
+    const tile = hidden[Math.floor(random() * hidden.length)];
+    const picked = gameReducer(next, { type: "pick", index: tile.id, at });
+    if (picked === next) break;
+    next = picked;
+  }
+  return next.isGameOver || !isSameTurn(next) ? next : gameReducer(next, { type: "endTurn", at });
+}
+
+function passTurn(state: GameState, event: RoundEvent): GameState {
+  const player = getCurrentPlayer(state) ?? "";
+  const banked = state.settings.banking && event.type === "endTurn" ? state.pot : 0;
+  const scores = banked
+    ? { ...state.scores, [player]: getScore(state, player) + banked }
+    : state.scores;
+  const events = [...state.events, banked ? { ...event, banked } : event];
+  if (banked && scores[player] >= state.settings.targetScore) {
+    return { ...state, events, scores, pot: 0, winner: player };
+  }
+  const currentPlayerIndex = nextPlayerIndex(state);
+  const next: GameState = {
+    ...state,
+    events,
+    scores,
+    pot: 0,
+    turn: state.turn + 1,
+    currentPlayerIndex,
+    picksLeft: getTurnPicks(state, currentPlayerIndex),
+  };
+  if (next.grid.some((tile) => tile.isMine && !tile.isRevealed)) return next;
+  const seed = Math.floor(createRng(state.seed + state.turn)() * 0x40000000);
+  const settings = escalateMines(state.settings, state.round, false);
+  const hider = chooseHider(state.players, state.eliminated, settings, state.hider);
+  const firstPicker = hider ? firstPickerIndex(state, hider) : currentPlayerIndex;
+  return {
+    ...next,
+    ...dealRound(
+      seed,
+      settings,
+      getActivePlayers(state),
+      deriveSalt(state.salt, seed),
+      hider,
+      event.at
+    ),
+    seed,
+    settings,
+    round: state.round + 1,
+    currentPlayerIndex: firstPicker,
+    picksLeft: getTurnPicks(state, firstPicker),
+  };
+}
+
+function escalateMines(settings: GameSettings, round: number, slapped: boolean): GameSettings {
+  if (!settings.mineRampStep) return settings;
+  const isDue = settings.mineRampRounds ? round % settings.mineRampRounds === 0 : slapped;
+  const mineCount = Math.min(getMineCap(settings), settings.mineCount + settings.mineRampStep);
+  return isDue && mineCount > settings.mineCount
+    ? normalizeSettings({ ...settings, mineCount })
+    : settings;
+}
+
+export function getNextMineCount(state: GameState): number {
+  return escalateMines(state.settings, state.round, !!state.slappedPlayer).mineCount;
+}
+
+function updateInventory(
+  state: GameState,
+  player: string,
+  kind: keyof Inventory,
+  delta: number
+): Record<string, Inventory> {
+  const current = getInventory(state, player);
+  return { ...state.inventory, [player]: { ...current, [kind]: current[kind] + delta } };
+}
+
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case "pick": {
+      if (!canPick(state, action.index)) return state;
+      const player = getCurrentPlayer(state) ?? "";
+      const isBonusMine =
+        action.index === state.bonusMine && !!getHandicap(state.settings, player).bonusMine;
+      const tile: Tile = isBonusMine
+        ? { ...state.grid[action.index], kind: "mine", isMine: true }
+        : state.grid[action.index];
+      const grid = state.grid.map((t, i) =>
+        i === action.index ? { ...tile, isRevealed: true } : t
+      );
+      const at = action.at ?? 0;
+      const powerUp = isPowerUpKind(tile.kind) ? tile.kind : undefined;
+      if (tile.isMine && getInventory(state, player).shield > 0) {
+        return passTurn(
+          {
+            ...state,
+            grid,
+            events: [
+              ...state.events,
+              { type: "pick", at, player, index: action.index, isMine: true, shielded: true },
+            ],
+            inventory: updateInventory(state, player, "shield", -1),
+            // A shield stops the slap, not the loss of the unbanked pot.
+            pot: 0,
+          },
+          { type: "endTurn", at, player }
+        );
+      }
+      const events: RoundEvent[] = [
+        ...state.events,
+        { type: "pick", at, player, index: action.index, isMine: tile.isMine, powerUp },
+      ];
+      if (tile.isMine) {
+        const lostPot = state.settings.banking ? state.pot : undefined;
+        return {
+          ...state,
+          grid,
+          events: [...events, { type: "slap", at, player, lostPot }],
+          pot: 0,
+          slappedPlayer: player,
+          isGameOver: true,
+        };
+      }
+      const next = {
+        ...state,
+        grid,
+        events,
+        picksLeft: state.picksLeft - 1,
+        pot: state.settings.banking ? state.pot + getPickValue(state) : state.pot,
+      };
+      switch (powerUp) {
+        case "shield":
+        case "skip":
+          return { ...next, inventory: updateInventory(state, player, powerUp, 1) };
+        case "double":
+          return { ...next, picksLeft: next.picksLeft + DOUBLE_PICK_BONUS };
+        case "reverse":
+          return { ...next, direction: state.direction === 1 ? -1 : 1 };
+        default:
+          return next;
+      }
+    }
+    case "placeMines": {
+      if (!canPlaceMines(state, action.mines) || !state.hider) return state;
+      return {
+        ...state,
+        ...dealLayout(
+          state.seed,
+          state.settings,
+          getPickers(state),
+          state.salt,
+          action.at,
+          state.hider,
+          [...action.mines]
+        ),
+        isPlacing: false,
+      };
+    }
+    case "endTurn": {
+      if (!canEndTurn(state)) return state;
+      return passTurn(state, {
+        type: "endTurn",
+        at: action.at ?? 0,
+        player: getCurrentPlayer(state) ?? "",
+      });
+    }
+    case "useSkip": {
+      if (!canUseSkip(state)) return state;
+      const player = getCurrentPlayer(state) ?? "";
+      return passTurn(
+        { ...state, inventory: updateInventory(state, player, "skip", -1) },
+        { type: "skip", at: action.at ?? 0, player }
+      );
+    }
+    case "timeout": {
+      if (state.isGameOver || state.isPlacing || state.winner || state.players.length === 0) {
+        return state;
+      }
+      return autoPick(state, action.seed, action.at);
+    }
+    case "dismissSlap": {
+      if (!state.isGameOver || state.winner) return state;
+      const eliminated =
+        state.settings.elimination && state.slappedPlayer
+          ? [...state.eliminated, state.slappedPlayer]
+          : state.eliminated;
+      const remaining = getActivePlayers({ players: state.players, eliminated });
+      if (state.settings.elimination && remaining.length <= 1) {
+        return {
+          ...state,
+          eliminated,
+          winner: remaining[0] ?? null,
+          slappedPlayer: null,
+        };
+      }
+      const settings = escalateMines(state.settings, state.round, true);
+      const hider = chooseHider(state.players, eliminated, settings, state.hider);
+      const currentPlayerIndex = hider
+        ? firstPickerIndex(state, hider, eliminated)
+        : nextPlayerIndex(state, eliminated);
+      return {
+        ...state,
+        ...dealRound(
+          action.seed,
+          settings,
+          remaining,
+          action.salt ?? deriveSalt(state.salt, action.seed),
+          hider,
+          action.at
+        ),
+        seed: action.seed,
+        settings,
+        round: state.round + 1,
+        turn: state.turn + 1,
+        eliminated,
+        currentPlayerIndex,
+        picksLeft: getTurnPicks(state, currentPlayerIndex),
+        slappedPlayer: null,
+        isGameOver: false,
+      };
+    }
+    case "reset": {
+      const players = action.players ?? state.players;
+      const settings = normalizeSettings({
+        ...state.settings,
+        ...(state.winner && { mineCount: state.baseMineCount }),
+        ...action.settings,
+      });
+      const eliminated = state.winner ? [] : state.eliminated;
+      const active = getActivePlayers({ players, eliminated });
+      const hider =
+        settings.hider && !state.winner && state.hider && active.includes(state.hider)
+          ? state.hider
+          : chooseHider(players, eliminated, settings, state.winner ? null : state.hider);
+      const seat = players.length ? state.currentPlayerIndex % players.length : 0;
+      const currentPlayerIndex = hider
+        ? firstPickerIndex({ ...state, players }, hider, eliminated)
+        : eliminated.includes(players[seat])
+          ? nextPlayerIndex({ ...state, players, currentPlayerIndex: seat, hider: null }, eliminated)
+          : seat;
+      return {
+        ...state,
+        players,
+        ...dealRound(
+          action.seed,
+          settings,
+          active,
+          action.salt ?? deriveSalt(state.salt, action.seed),
+          hider,
+          action.at
+        ),
+        seed: action.seed,
+        settings,
+        baseMineCount:
+          action.settings?.mineCount !== undefined ? settings.mineCount : state.baseMineCount,
+        round: state.winner ? 1 : state.round,
+        turn: state.turn + 1,
+        currentPlayerIndex,
+        picksLeft: getTurnPicks({ players, settings }, currentPlayerIndex),
+        direction: state.winner ? 1 : state.direction,
+        inventory: state.winner ? {} : state.inventory,
+        pot: 0,
+        scores: state.winner ? {} : state.scores,
+        slappedPlayer: null,
+        isGameOver: false,
+        eliminated,
+        winner: null,
+      };
+    }
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,52 @@
+import type { PlacedPowerUp } from "@/lib/powerups";
+import { sha256 } from "@/lib/sha256";
+
+export type Layout = {
+  rows: number;
+  columns: number;
+  mines: number[];
+  powerUps: PlacedPowerUp[];
+  bonusMine?: number | null;
+};
+
+const SALT_BYTES = 16;
+
+export function createSalt(): string {
+  const bytes = new Uint8Array(SALT_BYTES);
+  if (typeof globalThis.crypto?.getRandomValues === "function") {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function deriveSalt(previous: string, seed: number): string {
+  return sha256(`${previous}:${seed}`).slice(0, SALT_BYTES * 2);
+}
+
+export function serializeLayout(layout: Layout): string {
+  const mines = [...layout.mines].sort((a, b) => a - b).join(",");
+  const powerUps = [...layout.powerUps]
+    .sort((a, b) => a.index - b.index)
+    .map((powerUp) => `${powerUp.index}:${powerUp.kind}`)
+    .join(",");
+  const bonus = typeof layout.bonusMine === "number" ? `|bonus=${layout.bonusMine}` : "";
+  return `${layout.rows}x${layout.columns}|mines=${mines}|powerUps=${powerUps}${bonus}`;
+}
+
+export function commitLayout(layout: Layout, salt: string): string {
+  return sha256(`${serializeLayout(layout)}|salt=${salt}`);
+}
+
+export function verifyCommitment(commitment: string, layout: Layout, salt: string): boolean {
+  return commitLayout(layout, salt) === commitment;
+}
+
+export function formatHash(hash: string): string {
+  return hash.length > 16 ? `${hash.slice(0, 8)}…${hash.slice(-8)}` : hash;
+}
+
+export function describeTile(index: number, columns: number): string {
+  return `R${Math.floor(index / columns) + 1}C${(index % columns) + 1}`;
+}
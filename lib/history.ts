@@ -0,0 +1,116 @@
+import { type GameState, getPickers, getRoundPicks } from "@/lib/engine";
+
+export const MAX_HISTORY_ROUNDS = 500;
+
+export type RoundRecord = {
+  id: string;
+  sessionId: string;
+  finishedAt: number;
+  players: string[];
+  rows: number;
+  columns: number;
+  mineCount: number;
+  slappedPlayer: string;
+  picksBeforeMine: number;
+  safePicksByPlayer: Record<string, number>;
+};
+
+export type SessionSummary = {
+  sessionId: string;
+  startedAt: number;
+  players: string[];
+  rounds: RoundRecord[];
+};
+
+export type PlayerStats = {
+  name: string;
+  roundsPlayed: number;
+  slaps: number;
+  slapRate: number;
+  averagePicksSurvived: number;
+  longestSafeStreak: number;
+};
+
+export function createRoundRecord(state: GameState, finishedAt: number): RoundRecord {
+  const safePicks = getRoundPicks(state).filter((pick) => !pick.isMine);
+  const players = getPickers(state);
+  const safePicksByPlayer: Record<string, number> = {};
+  for (const player of players) safePicksByPlayer[player] = 0;
+  for (const pick of safePicks) {
+    safePicksByPlayer[pick.player] = (safePicksByPlayer[pick.player] ?? 0) + 1;
+  }
+
+  return {
+    id: `${state.sessionId}-${state.round}-${finishedAt}`,
+    sessionId: state.sessionId,
+    finishedAt,
+    players,
+    rows: state.settings.rows,
+    columns: state.settings.columns,
+    mineCount: state.settings.mineCount,
+    slappedPlayer: state.slappedPlayer ?? "",
+    picksBeforeMine: safePicks.length,
+    safePicksByPlayer,
+  };
+}
+
+export function groupSessions(rounds: RoundRecord[]): SessionSummary[] {
+  const sessions = new Map<string, SessionSummary>();
+  for (const round of [...rounds].sort((a, b) => a.finishedAt - b.finishedAt)) {
+    const session = sessions.get(round.sessionId);
+    if (session) {
+      session.rounds.push(round);
+      for (const player of round.players) {
+        if (!session.players.includes(player)) session.players.push(player);
+      }
+    } else {
+      sessions.set(round.sessionId, {
+        sessionId: round.sessionId,
+        startedAt: round.finishedAt,
+        players: [...round.players],
+        rounds: [round],
+      });
+    }
+  }
+  return [...sessions.values()].sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export function computePlayerStats(rounds: RoundRecord[]): PlayerStats[] {
+  const totals = new Map<
+    string,
+    { roundsPlayed: number; slaps: number; safePicks: number; streak: number; longest: number }
+  >();
+
+  for (const round of [...rounds].sort((a, b) => a.finishedAt - b.finishedAt)) {
+    for (const name of round.players) {
+      const entry = totals.get(name) ?? {
+        roundsPlayed: 0,
+        slaps: 0,
+        safePicks: 0,
+        streak: 0,
+        longest: 0,
+      };
+      const safePicks = round.safePicksByPlayer[name] ?? 0;
+      entry.roundsPlayed += 1;
+      entry.safePicks += safePicks;
+      entry.streak += safePicks;
+      entry.longest = Math.max(entry.longest, entry.streak);
+      if (round.slappedPlayer === name) {
+        entry.slaps += 1;
+        entry.streak = 0;
+      }
+      totals.set(name, entry);
+    }
+  }
+
+  return [...totals.entries()]
+    .map(([name, entry]) => ({
+      name,
+      roundsPlayed: entry.roundsPlayed,
+      slaps: entry.slaps,
+      slapRate: entry.slaps / entry.roundsPlayed,
+      averagePicksSurvived: entry.safePicks / entry.roundsPlayed,
+      longestSafeStreak: entry.longest,
+    }))
+    .sort((a, b) => b.slapRate - a.slapRate || b.slaps - a.slaps);
+}
@@ -0,0 +1,108 @@
+import {
+  type GameState,
+  type RoundEvent,
+  type Tile,
+  canEndTurn,
+  canUseSkip,
+  getLayout,
+} from "@/lib/engine";
+import type { Layout } from "@/lib/fairness";
+import { getRiskOdds, type RiskOdds } from "@/lib/odds";
+
+export const DEFAULT_RELAY_URL = process.env.EXPO_PUBLIC_RELAY_URL ?? "ws://localhost:8787";
+
+export type RemoteAction =
+  | { type: "pick"; index: number }
+  | { type: "endTurn" }
+  | { type: "useSkip" }
+  | { type: "dismissSlap" };
+
+export type PublicState = Omit<GameState, "grid" | "events" | "seed" | "salt"> & {
+  grid: Tile[];
+  salt: string | null;
+  layout: Layout | null;
+  lastEvent: RoundEvent | null;
+  canEndTurn: boolean;
+  canUseSkip: boolean;
+  riskOdds: RiskOdds;
+  turnMsLeft: number | null;
+};
+
+export type RelayMessage =
+  | { type: "joined"; room: string; hostOnline: boolean; token?: string }
+  | { type: "refused"; room: string }
+  | { type: "hostOnline" }
+  | { type: "hostOffline" }
+  | { type: "guestJoined"; clientId: string }
+  | { type: "guestLeft"; clientId: string }
+  | { type: "state"; state: PublicState; seated: string[] }
+  | { type: "seat"; player: string | null }
+  | { type: "claim"; clientId: string; player: string | null }
+  | { type: "action"; clientId: string; player: string; action: RemoteAction };
+
+export function createClientId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Guests count down from `turnMsLeft` on arrival; device clocks don't agree on an absolute time.
+export function createPublicState(
+  state: GameState,
+  turnDeadline: number | null = null
+): PublicState {
+  const { events, seed: _seed, salt, ...rest } = state;
+  const isRevealed = !!state.slappedPlayer;
+  const lastEvent = events[events.length - 1];
+  return {
+    ...rest,
+    salt: isRevealed ? salt : null,
+    layout: isRevealed ? getLayout(state) : null,
+    bonusMine: isRevealed ? state.bonusMine : null,
+    grid: state.grid.map((tile) =>
+      tile.isRevealed ? tile : { ...tile, kind: "safe", isMine: false, adjacentMines: 0 }
+    ),
+    lastEvent: lastEvent?.type === "deal" ? null : (lastEvent ?? null),
+    canEndTurn: canEndTurn(state),
+    canUseSkip: canUseSkip(state),
+    riskOdds: getRiskOdds(state),
+    turnMsLeft: turnDeadline === null ? null : Math.max(0, turnDeadline - Date.now()),
+  };
+}
+
+// Guests keep the commitment they saw before the reveal, so a host can't swap it in afterwards.
+// A fresh deal (no events yet) may replace it, since resets redeal within the same round.
+export function recordCommitment(
+  commitments: Record<number, string>,
+  state: PublicState
+): Record<number, string> {
+  if (!state.commitment || state.layout || state.isPlacing) return commitments;
+  if (commitments[state.round] && state.lastEvent) return commitments;
+  return commitments[state.round] === state.commitment
+    ? commitments
+    : { ...commitments, [state.round]: state.commitment };
+}
+
+export function parseRelayMessage(data: unknown): RelayMessage | null {
+  if (typeof data !== "string") return null;
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message.type === "string" ? (message as RelayMessage) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getSeatOwner(seats: Record<string, string>, player: string | undefined) {
+  return player ? Object.keys(seats).find((clientId) => seats[clientId] === player) : undefined;
+}
+
+export function claimSeat(
+  seats: Record<string, string>,
+  clientId: string,
+  player: string | null,
+  state: Pick<GameState, "players" | "bots">
+): Record<string, string> {
+  const { [clientId]: _previous, ...rest } = seats;
+  if (!player || !state.players.includes(player) || state.bots[player]) return rest;
+  if (getSeatOwner(rest, player)) return seats;
+  return { ...rest, [clientId]: player };
+}
@@ -0,0 +1,61 @@
+import type { GameState } from "@/lib/engine";
+import { type GameSettings, getHandicap, getTileCount } from "@/lib/settings";
+
+export type RiskOdds = {
+  hiddenTiles: number;
+  hiddenMines: number;
+  mineChance: number;
+  survivalChance: number;
+};
+
+export function getRiskOdds(
+  state: Pick<
+    GameState,
+    "grid" | "settings" | "picksLeft" | "bonusMine" | "players" | "currentPlayerIndex"
+  >,
+  picks = state.picksLeft
+): RiskOdds {
+  const { grid, settings, bonusMine } = state;
+  const player = state.players[state.currentPlayerIndex] ?? "";
+  const hasLiveBonusMine =
+    bonusMine !== null &&
+    !!getHandicap(settings, player).bonusMine &&
+    !grid[bonusMine]?.isRevealed;
+  const hiddenTiles = grid.filter((tile) => !tile.isRevealed).length;
+  const revealedMines = grid.filter(
+    (tile) => tile.isRevealed && tile.isMine && tile.id !== bonusMine
+  ).length;
+  const hiddenMines =
+    Math.max(0, settings.mineCount - revealedMines) + (hasLiveBonusMine ? 1 : 0);
+  let survivalChance = 1;
+  for (let i = 0; i < Math.min(picks, hiddenTiles); i++) {
+    survivalChance *= Math.max(0, hiddenTiles - hiddenMines - i) / (hiddenTiles - i);
+  }
+  return {
+    hiddenTiles,
+    hiddenMines,
+    mineChance: hiddenTiles ? hiddenMines / hiddenTiles : 0,
+    survivalChance,
+  };
+}
+
+export function formatChance(chance: number): string {
+  if (chance > 0 && chance < 0.01) return "<1%";
+  if (chance < 1 && chance > 0.99) return ">99%";
+  return `${Math.round(chance * 100)}%`;
+}
+
+const DANGER_LEVELS = [
+  { label: "Calm", density: 0 },
+  { label: "Tense", density: 0.08 },
+  { label: "Risky", density: 0.16 },
+  { label: "Deadly", density: 0.28 },
+];
+
+export function getDangerLevel(
+  settings: Pick<GameSettings, "rows" | "columns" | "mineCount">
+): { level: number; label: string } {
+  const density = settings.mineCount / getTileCount(settings);
+  const level = DANGER_LEVELS.filter((entry) => density >= entry.density).length;
+  return { level, label: DANGER_LEVELS[level - 1].label };
+}
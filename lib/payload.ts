@@ -0,0 +1,116 @@
+import { BOT_DIFFICULTIES, type BotDifficulty } from "@/lib/bots";
+import { json, object, oneOf, optional, type ParseResult, record } from "@/lib/schema";
+import {
+  inviteParamsSchema,
+  playersSchema,
+  roundCodeSchema,
+  settingsSchema,
+  setupParamsSchema,
+} from "@/lib/session";
+import { DEFAULT_SETTINGS, type GameSettings, normalizeSettings } from "@/lib/settings";
+
+// Version 0 is the plain invite link (`play?players=...`); version 1 adds bots and every rule.
+export const SETUP_PAYLOAD_VERSION = 1;
+
+export type SetupPayload = {
+  players: string[];
+  bots: Record<string, BotDifficulty>;
+  settings: GameSettings;
+  code?: string;
+};
+
+const payloadV1Schema = object({
+  players: playersSchema,
+  bots: optional(record(oneOf(BOT_DIFFICULTIES))),
+  settings: optional(settingsSchema),
+  code: optional(roundCodeSchema),
+});
+
+function getChangedSettings(settings: GameSettings): Partial<GameSettings> {
+  return Object.fromEntries(
+    Object.entries(settings).filter(
+      ([key, value]) =>
+        JSON.stringify(value) !== JSON.stringify(DEFAULT_SETTINGS[key as keyof GameSettings])
+    )
+  );
+}
+
+function parseQuery(text: string): Record<string, string> | null {
+  const query = text.slice(text.indexOf("?") + 1).split("#")[0];
+  try {
+    return Object.fromEntries(
+      query
+        .split("&")
+        .filter(Boolean)
+        .map((pair) => {
+          const [key, value = ""] = pair.split("=");
+          return [key, decodeURIComponent(value.replace(/\+/g, " "))];
+        })
+    );
+  } catch {
+    return null;
+  }
+}
+
+export function encodeSetupPayload(payload: SetupPayload): string {
+  const body: Record<string, unknown> = { players: payload.players };
+  if (Object.keys(payload.bots).length > 0) body.bots = payload.bots;
+  const settings = getChangedSettings(payload.settings);
+  if (Object.keys(settings).length > 0) body.settings = settings;
+  if (payload.code) body.code = payload.code;
+  return `v${SETUP_PAYLOAD_VERSION}.${JSON.stringify(body)}`;
+}
+
+export function toSetupQuery(payload: SetupPayload): Record<string, string> {
+  const query: Record<string, string> = {
+    players: JSON.stringify(payload.players),
+    bots: JSON.stringify(payload.bots),
+    settings: JSON.stringify(payload.settings),
+  };
+  if (payload.code) query.code = payload.code;
+  return query;
+}
+
+function decodeVersioned(text: string): ParseResult<SetupPayload> {
+  if (text.includes("?")) {
+    const query = parseQuery(text);
+    if (!query) return { ok: false, error: "The link is malformed" };
+    if (query.setup) return decodeVersioned(query.setup.trim());
+    const invite = inviteParamsSchema(query);
+    if (!invite.ok) return invite;
+    return {
+      ok: true,
+      value: {
+        players: invite.value.players,
+        bots: {},
+        settings: normalizeSettings(invite.value.mines ? { mineCount: invite.value.mines } : {}),
+        code: invite.value.seed,
+      },
+    };
+  }
+
+  const match = /^v(\d+)\.([\s\S]*)$/.exec(text);
+  if (!match) return { ok: false, error: "This isn't a Slap Grid setup" };
+  const version = Number(match[1]);
+  if (version > SETUP_PAYLOAD_VERSION) {
+    return { ok: false, error: "This setup comes from a newer version of Slap Grid" };
+  }
+  const parsed = json(payloadV1Schema)(match[2], "setup");
+  if (!parsed.ok) return parsed;
+  return {
+    ok: true,
+    value: {
+      players: parsed.value.players,
+      bots: parsed.value.bots ?? {},
+      settings: parsed.value.settings ?? DEFAULT_SETTINGS,
+      code: parsed.value.code,
+    },
+  };
+}
+
+export function decodeSetupPayload(text: string): ParseResult<SetupPayload> {
+  const result = decodeVersioned(text.trim());
+  if (!result.ok) return result;
+  const setup = setupParamsSchema(toSetupQuery(result.value));
+  return setup.ok ? result : setup;
+}
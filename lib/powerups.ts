@@ -0,0 +1,31 @@
+export type PowerUpKind = "shield" | "skip" | "double" | "reverse";
+
+export type PlacedPowerUp = {
+  index: number;
+  kind: PowerUpKind;
+};
+
+export type Inventory = {
+  shield: number;
+  skip: number;
+};
+
+export const POWER_UP_KINDS: PowerUpKind[] = ["shield", "skip", "double", "reverse"];
+
+export const DOUBLE_PICK_BONUS = 2;
+
+export const EMPTY_INVENTORY: Inventory = { shield: 0, skip: 0 };
+
+export const POWER_UP_INFO: Record<PowerUpKind, { label: string; toast: string }> = {
+  shield: { label: "Shield", toast: "Shield! The next slap is blocked." },
+  skip: { label: "Skip", toast: "Skip! Pass a turn whenever you like." },
+  double: {
+    label: "Double Pick",
+    toast: `Double pick! ${DOUBLE_PICK_BONUS} extra picks this turn.`,
+  },
+  reverse: { label: "Reverse", toast: "Reverse! Turn order flips." },
+};
+
+export function isPowerUpKind(value: unknown): value is PowerUpKind {
+  return POWER_UP_KINDS.includes(value as PowerUpKind);
+}
@@ -0,0 +1,98 @@
+export type PlayerProfile = {
+  id: string;
+  name: string;
+  color: string;
+  avatarUri?: string;
+};
+
+export type Roster = {
+  profiles: PlayerProfile[];
+  selectedIds: string[];
+};
+
+export const EMPTY_ROSTER: Roster = { profiles: [], selectedIds: [] };
+
+export const PROFILE_COLORS = [
+  "#6366F1",
+  "#EC4899",
+  "#F59E0B",
+  "#10B981",
+  "#0EA5E9",
+  "#8B5CF6",
+  "#EF4444",
+  "#14B8A6",
+];
+
+export function normalizeName(name: string): string {
+  return name.trim().toLocaleLowerCase();
+}
+
+export function findProfileByName(
+  profiles: PlayerProfile[],
+  name: string
+): PlayerProfile | undefined {
+  const target = normalizeName(name);
+  return profiles.find((profile) => normalizeName(profile.name) === target);
+}
+
+export function createProfile(name: string, profiles: PlayerProfile[]): PlayerProfile {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    color: PROFILE_COLORS[profiles.length % PROFILE_COLORS.length],
+  };
+}
+
+function isProfile(value: unknown): value is PlayerProfile {
+  if (!value || typeof value !== "object") return false;
+  const profile = value as PlayerProfile;
+  return (
+    typeof profile.id === "string" &&
+    typeof profile.name === "string" &&
+    !!profile.name.trim() &&
+    typeof profile.color === "string" &&
+    (profile.avatarUri === undefined || typeof profile.avatarUri === "string")
+  );
+}
+
+export function parseRoster(stored: unknown): Roster {
+  if (!stored || typeof stored !== "object") return EMPTY_ROSTER;
+  const raw = stored as Partial<Roster>;
+  const profiles: PlayerProfile[] = [];
+  for (const entry of Array.isArray(raw.profiles) ? raw.profiles : []) {
+    if (!isProfile(entry) || findProfileByName(profiles, entry.name)) continue;
+    if (profiles.some((profile) => profile.id === entry.id)) continue;
+    profiles.push(entry);
+  }
+  const selectedIds = Array.isArray(raw.selectedIds)
+    ? raw.selectedIds.filter(
+        (id, index, ids) =>
+          profiles.some((profile) => profile.id === id) && ids.indexOf(id) === index
+      )
+    : [];
+  return { profiles, selectedIds };
+}
+
+export function renameInRoster(roster: Roster, id: string, name: string): Roster | null {
+  const existing = findProfileByName(roster.profiles, name);
+  if (!name.trim() || (existing && existing.id !== id)) return null;
+  return {
+    ...roster,
+    profiles: roster.profiles.map((profile) =>
+      profile.id === id ? { ...profile, name: name.trim() } : profile
+    ),
+  };
+}
+
+export function removeFromRoster(roster: Roster, id: string): Roster {
+  return {
+    profiles: roster.profiles.filter((profile) => profile.id !== id),
+    selectedIds: roster.selectedIds.filter((selectedId) => selectedId !== id),
+  };
+}
+
+export function getSelectedProfiles(roster: Roster): PlayerProfile[] {
+  return roster.selectedIds
+    .map((id) => roster.profiles.find((profile) => profile.id === id))
+    .filter((profile): profile is PlayerProfile => !!profile);
+}
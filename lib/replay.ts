@@ -0,0 +1,102 @@
+import { type GameState, type RoundEvent, type Tile, createGrid } from "@/lib/engine";
+import { POWER_UP_INFO } from "@/lib/powerups";
+
+export const MAX_REPLAYS = 50;
+
+export type ReplayRecord = {
+  id: string;
+  sessionId: string;
+  round: number;
+  events: RoundEvent[];
+};
+
+export type ReplayFrame = {
+  rows: number;
+  columns: number;
+  showCount: boolean;
+  grid: Tile[];
+  step: number;
+  totalSteps: number;
+  event: RoundEvent;
+  elapsed: number;
+};
+
+type DealEvent = Extract<RoundEvent, { type: "deal" }>;
+
+export function createReplay(state: GameState, id: string): ReplayRecord {
+  return {
+    id,
+    sessionId: state.sessionId,
+    round: state.round,
+    events: state.events,
+  };
+}
+
+export function getDealEvent(replay: ReplayRecord): DealEvent | undefined {
+  const first = replay.events[0];
+  return first?.type === "deal" ? first : undefined;
+}
+
+export function getReplayFrame(replay: ReplayRecord, step: number): ReplayFrame | null {
+  const deal = getDealEvent(replay);
+  if (!deal) return null;
+
+  const totalSteps = replay.events.length - 1;
+  const clampedStep = Math.min(totalSteps, Math.max(0, step));
+  const revealed = new Set<number>();
+  const bonusHits = new Set<number>();
+  for (const event of replay.events.slice(1, clampedStep + 1)) {
+    if (event.type !== "pick") continue;
+    revealed.add(event.index);
+    if (event.isMine && event.index === deal.bonusMine) bonusHits.add(event.index);
+  }
+
+  const event = replay.events[clampedStep];
+  return {
+    rows: deal.rows,
+    columns: deal.columns,
+    showCount: !!deal.proximity,
+    grid: createGrid(deal.rows, deal.columns, deal.mines, deal.powerUps).map((tile) => ({
+      ...tile,
+      ...(bonusHits.has(tile.id) && { kind: "mine", isMine: true }),
+      isRevealed: revealed.has(tile.id),
+    })),
+    step: clampedStep,
+    totalSteps,
+    event,
+    elapsed: Math.max(0, event.at - deal.at),
+  };
+}
+
+function formatPoints(points: number): string {
+  return `${points} ${points === 1 ? "point" : "points"}`;
+}
+
+export function describeEvent(event: RoundEvent, columns: number): string {
+  switch (event.type) {
+    case "deal":
+      return `Board dealt for ${event.players.join(", ")}`;
+    case "pick": {
+      const row = Math.floor(event.index / columns) + 1;
+      const column = (event.index % columns) + 1;
+      const outcome = event.shielded
+        ? " — mine, blocked by a shield"
+        : event.isMine
+          ? " — mine!"
+          : event.powerUp
+            ? ` — ${POWER_UP_INFO[event.powerUp].label.toLowerCase()}`
+            : " — safe";
+      return `${event.player} picked row ${row}, column ${column}${outcome}`;
+    }
+    case "endTurn":
+      return event.banked
+        ? `${event.player} banked ${formatPoints(event.banked)}`
+        : `${event.player} ended their turn`;
+    case "skip":
+      return `${event.player} used a skip`;
+    case "slap":
+      return event.lostPot
+        ? `${event.player} gets slapped and loses ${formatPoints(event.lostPot)}`
+        : `${event.player} gets slapped`;
+  }
+}
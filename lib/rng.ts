@@ -0,0 +1,46 @@
+const CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const CODE_LENGTH = 6;
+const SEED_BITS = 5 * CODE_LENGTH;
+const SEED_LIMIT = 2 ** SEED_BITS;
+
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * SEED_LIMIT);
+}
+
+export function toRoundCode(seed: number): string {
+  let value = seed % SEED_LIMIT;
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code = CODE_ALPHABET[value % 32] + code;
+    value = Math.floor(value / 32);
+  }
+  return code;
+}
+
+export function parseRoundCode(input: string): number | null {
+  const normalized = input
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+  if (normalized.length !== CODE_LENGTH) return null;
+
+  let seed = 0;
+  for (const char of normalized) {
+    const digit = CODE_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    seed = seed * 32 + digit;
+  }
+  return seed;
+}
@@ -0,0 +1,146 @@
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type Schema<T> = (input: unknown, path?: string) => ParseResult<T>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function ok<T>(value: T): ParseResult<T> {
+  return { ok: true, value };
+}
+
+function fail(path: string | undefined, message: string): ParseResult<never> {
+  return { ok: false, error: path ? `${path} ${message}` : message };
+}
+
+export function string(
+  options: { min?: number; max?: number; pattern?: RegExp; trim?: boolean } = {}
+): Schema<string> {
+  return (input, path) => {
+    if (Array.isArray(input)) return fail(path, "must be a single value");
+    if (typeof input !== "string") return fail(path, "must be text");
+    const value = options.trim === false ? input : input.trim();
+    if (options.min !== undefined && value.length < options.min) {
+      return fail(path, options.min === 1 ? "is empty" : `is shorter than ${options.min}`);
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      return fail(path, `is longer than ${options.max}`);
+    }
+    if (options.pattern && !options.pattern.test(value)) return fail(path, "is malformed");
+    return ok(value);
+  };
+}
+
+export function integer(options: { min?: number; max?: number } = {}): Schema<number> {
+  return (input, path) => {
+    const value = typeof input === "string" && /^-?\d+$/.test(input) ? Number(input) : input;
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      return fail(path, "must be a whole number");
+    }
+    if (options.min !== undefined && value < options.min) {
+      return fail(path, `must be at least ${options.min}`);
+    }
+    if (options.max !== undefined && value > options.max) {
+      return fail(path, `must be at most ${options.max}`);
+    }
+    return ok(value);
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (input, path) =>
+    values.includes(input as T) ? ok(input as T) : fail(path, `must be ${values.join(" or ")}`);
+}
+
+export function array<T>(
+  item: Schema<T>,
+  options: { min?: number; max?: number; unique?: boolean } = {}
+): Schema<T[]> {
+  return (input, path) => {
+    if (!Array.isArray(input)) return fail(path, "must be a list");
+    if (options.min !== undefined && input.length < options.min) {
+      return fail(path, `needs at least ${options.min} entries`);
+    }
+    if (options.max !== undefined && input.length > options.max) {
+      return fail(path, `allows at most ${options.max} entries`);
+    }
+    const values: T[] = [];
+    for (const [index, entry] of input.entries()) {
+      const result = item(entry, `${path ?? "list"}[${index}]`);
+      if (!result.ok) return result;
+      values.push(result.value);
+    }
+    if (options.unique && new Set(values).size !== values.length) {
+      return fail(path, "has duplicate entries");
+    }
+    return ok(values);
+  };
+}
+
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return (input, path) => {
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+      return fail(path, "must be an object");
+    }
+    const entries: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(input)) {
+      const result = value(entry, `${path ?? "object"}.${key}`);
+      if (!result.ok) return result;
+      entries[key] = result.value;
+    }
+    return ok(entries);
+  };
+}
+
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return (input, path) => {
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+      return fail(path, "must be an object");
+    }
+    const values: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const result = schema((input as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+      if (!result.ok) return result;
+      if (result.value !== undefined) values[key] = result.value;
+    }
+    return ok(values as { [K in keyof S]: Infer<S[K]> });
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (input, path) =>
+    input === undefined || input === "" ? ok(undefined) : schema(input, path);
+}
+
+export function delimited<T>(schema: Schema<T>, separator = ","): Schema<T> {
+  return (input, path) =>
+    schema(typeof input === "string" ? input.split(separator) : input, path);
+}
+
+export function json<T>(schema: Schema<T>): Schema<T> {
+  return (input, path) => {
+    if (typeof input !== "string") return schema(input, path);
+    try {
+      return schema(JSON.parse(input), path);
+    } catch {
+      return fail(path, "is not valid JSON");
+    }
+  };
+}
+
+export function map<T, U>(schema: Schema<T>, transform: (value: T) => U): Schema<U> {
+  return (input, path) => {
+    const result = schema(input, path);
+    return result.ok ? ok(transform(result.value)) : result;
+  };
+}
+
+export function refine<T>(schema: Schema<T>, check: (value: T) => string | null): Schema<T> {
+  return (input, path) => {
+    const result = schema(input, path);
+    if (!result.ok) return result;
+    const error = check(result.value);
+    return error ? fail(path, error) : result;
+  };
+}
@@ -0,0 +1,56 @@
+export type PlayerScore = {
+  slaps: number;
+  safePicks: number;
+  roundsSurvived: number;
+  hiderPoints: number;
+};
+
+export type Scoreboard = Record<string, PlayerScore>;
+
+export const EMPTY_SCORE: PlayerScore = {
+  slaps: 0,
+  safePicks: 0,
+  roundsSurvived: 0,
+  hiderPoints: 0,
+};
+
+export function getScore(board: Scoreboard, player: string): PlayerScore {
+  return { ...EMPTY_SCORE, ...board[player] };
+}
+
+export function recordSafePick(board: Scoreboard, player: string): Scoreboard {
+  const score = getScore(board, player);
+  return { ...board, [player]: { ...score, safePicks: score.safePicks + 1 } };
+}
+
+export function recordSlap(
+  board: Scoreboard,
+  players: string[],
+  slappedPlayer: string
+): Scoreboard {
+  const next = { ...board };
+  for (const player of players) {
+    const score = getScore(next, player);
+    next[player] =
+      player === slappedPlayer
+        ? { ...score, slaps: score.slaps + 1 }
+        : { ...score, roundsSurvived: score.roundsSurvived + 1 };
+  }
+  return next;
+}
+
+export function recordHiderPoint(board: Scoreboard, hider: string): Scoreboard {
+  const score = getScore(board, hider);
+  return { ...board, [hider]: { ...score, hiderPoints: score.hiderPoints + 1 } };
+}
+
+export function rankPlayers(board: Scoreboard, players: string[]) {
+  return players
+    .map((name) => ({ name, ...getScore(board, name) }))
+    .sort(
+      (a, b) =>
+        a.slaps - b.slaps ||
+        b.roundsSurvived - a.roundsSurvived ||
+        b.safePicks - a.safePicks
+    );
+}
@@ -0,0 +1,136 @@
+import { BOT_DIFFICULTIES, type BotDifficulty } from "@/lib/bots";
+import { type GameState, restoreGame } from "@/lib/engine";
+import { parseRoundCode } from "@/lib/rng";
+import {
+  array,
+  delimited,
+  type Infer,
+  integer,
+  json,
+  map,
+  object,
+  oneOf,
+  optional,
+  record,
+  refine,
+  type Schema,
+  string,
+} from "@/lib/schema";
+import { type GameSettings, normalizeSettings } from "@/lib/settings";
+
+export const MAX_PLAYERS = 12;
+export const MAX_NAME_LENGTH = 40;
+
+export type SessionConfig = {
+  players: string[];
+  bots: Record<string, BotDifficulty>;
+  settings: GameSettings;
+  seed?: number;
+  room?: string;
+  relay?: string;
+};
+
+export type GameSession = {
+  state: GameState;
+  room?: string;
+  relay?: string;
+  hostToken?: string;
+};
+
+export const roundCodeSchema = refine(string({ min: 1 }), (code) =>
+  parseRoundCode(code) === null ? "is not a 6-character code" : null
+);
+
+export const relayUrlSchema = string({ pattern: /^wss?:\/\/\S+$/ });
+
+export const nameSchema = string({ min: 1, max: MAX_NAME_LENGTH });
+
+export const playersSchema = array(nameSchema, { min: 2, max: MAX_PLAYERS, unique: true });
+
+const anyValue: Schema<unknown> = (value) => ({ ok: true, value });
+
+export const settingsSchema = map(record(anyValue), (raw) =>
+  normalizeSettings(raw as Partial<GameSettings>)
+);
+
+export const setupParamsSchema = refine(
+  object({
+    players: json(playersSchema),
+    bots: optional(json(record(oneOf(BOT_DIFFICULTIES)))),
+    code: optional(roundCodeSchema),
+    mines: optional(integer({ min: 1 })),
+    settings: optional(json(settingsSchema)),
+  }),
+  ({ players, bots = {} }) => {
+    const botNames = Object.keys(bots);
+    if (botNames.some((name) => !players.includes(name))) {
+      return "Bots must also be in the player list";
+    }
+    return botNames.length >= players.length ? "A game needs at least one person" : null;
+  }
+);
+
+export type SetupParams = Infer<typeof setupParamsSchema>;
+
+export const inviteParamsSchema = object({
+  players: delimited(array(nameSchema, { min: 1, max: MAX_PLAYERS, unique: true })),
+  mines: optional(integer({ min: 1 })),
+  seed: optional(roundCodeSchema),
+});
+
+export type InviteParams = Infer<typeof inviteParamsSchema>;
+
+export function toInviteQuery(invite: InviteParams): Record<string, string> {
+  const query: Record<string, string> = { players: invite.players.join(",") };
+  if (invite.mines) query.mines = String(invite.mines);
+  if (invite.seed) query.seed = invite.seed;
+  return query;
+}
+
+export const gameParamsSchema = object({
+  session: string({ pattern: /^[\w-]{1,64}$/ }),
+});
+
+export const replayParamsSchema = object({
+  id: string({ pattern: /^[\w-]{1,96}$/ }),
+});
+
+export const remoteParamsSchema = object({
+  room: roundCodeSchema,
+  relay: optional(relayUrlSchema),
+});
+
+const savedSessionSchema = object({
+  room: optional(roundCodeSchema),
+  relay: optional(relayUrlSchema),
+  hostToken: optional(string({ min: 1 })),
+});
+
+// Saves from before sessions were stored whole hold just the game state.
+export function restoreSession(snapshot: unknown): GameSession | null {
+  if (!snapshot || typeof snapshot !== "object") return null;
+  if (!("state" in snapshot)) {
+    const state = restoreGame(snapshot);
+    return state && { state };
+  }
+  const state = restoreGame(snapshot.state);
+  const host = savedSessionSchema(snapshot);
+  if (!state) return null;
+  return host.ok && host.value.room ? { ...host.value, state } : { state };
+}
+
+export function createSessionConfig(
+  setup: SetupParams,
+  settings: Partial<GameSettings>,
+  room?: string,
+  relay?: string
+): SessionConfig {
+  return {
+    players: setup.players,
+    bots: setup.bots ?? {},
+    settings: normalizeSettings(settings),
+    seed: setup.code ? (parseRoundCode(setup.code) ?? undefined) : undefined,
+    room,
+    relay,
+  };
+}
@@ -0,0 +1,216 @@
+export type Handicap = {
+  picksPerTurn?: number;
+  minPicksPerTurn?: number;
+  bonusMine?: boolean;
+};
+
+export type GameSettings = {
+  rows: number;
+  columns: number;
+  picksPerTurn: number;
+  minPicksPerTurn: number;
+  mineCount: number;
+  elimination: boolean;
+  turnSeconds: number;
+  proximity: boolean;
+  shieldCount: number;
+  skipCount: number;
+  doubleCount: number;
+  reverseCount: number;
+  hider: boolean;
+  hiderPickLimit: number;
+  banking: boolean;
+  targetScore: number;
+  riskMeter: boolean;
+  mineRampStep: number;
+  mineRampRounds: number;
+  handicaps: Record<string, Handicap>;
+};
+
+export type NumericSettingKey = {
+  [K in keyof GameSettings]: GameSettings[K] extends number ? K : never;
+}[keyof GameSettings];
+
+export type BooleanSettingKey = {
+  [K in keyof GameSettings]: GameSettings[K] extends boolean ? K : never;
+}[keyof GameSettings];
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  rows: 5,
+  columns: 5,
+  picksPerTurn: 3,
+  minPicksPerTurn: 1,
+  mineCount: 1,
+  elimination: false,
+  turnSeconds: 0,
+  proximity: false,
+  shieldCount: 0,
+  skipCount: 0,
+  doubleCount: 0,
+  reverseCount: 0,
+  hider: false,
+  hiderPickLimit: 5,
+  banking: false,
+  targetScore: 100,
+  riskMeter: false,
+  mineRampStep: 0,
+  mineRampRounds: 0,
+  handicaps: {},
+};
+
+export const POWER_UP_SETTING_KEYS = {
+  shield: "shieldCount",
+  skip: "skipCount",
+  double: "doubleCount",
+  reverse: "reverseCount",
+} as const;
+
+export const BOARD_LIMITS = {
+  minSide: 3,
+  maxRows: 10,
+  maxColumns: 8,
+  maxPicksPerTurn: 10,
+  maxTurnSeconds: 60,
+  turnSecondsStep: 5,
+  maxHiderPickLimit: 20,
+  maxTargetScore: 500,
+  targetScoreStep: 10,
+  maxMineRampStep: 5,
+  maxMineRampRounds: 10,
+  mineCapRatio: 0.4,
+};
+
+function clamp(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.min(max, Math.max(min, Math.floor(value)));
+}
+
+export function getTileCount(settings: Pick<GameSettings, "rows" | "columns">): number {
+  return settings.rows * settings.columns;
+}
+
+export function getMaxMines(settings: Pick<GameSettings, "rows" | "columns">): number {
+  return getTileCount(settings) - 1;
+}
+
+export function getMineCap(settings: GameSettings): number {
+  return Math.max(
+    1,
+    Math.min(
+      getMaxMines(settings) - getPowerUpCount(settings),
+      Math.floor(getTileCount(settings) * BOARD_LIMITS.mineCapRatio)
+    )
+  );
+}
+
+export function getPowerUpCount(settings: GameSettings): number {
+  return (
+    settings.shieldCount + settings.skipCount + settings.doubleCount + settings.reverseCount
+  );
+}
+
+export function getHandicap(settings: GameSettings, player: string): Handicap {
+  return settings.handicaps[player] ?? {};
+}
+
+export function getPicksPerTurn(settings: GameSettings, player: string): number {
+  return getHandicap(settings, player).picksPerTurn ?? settings.picksPerTurn;
+}
+
+export function getMinPicksPerTurn(settings: GameSettings, player: string): number {
+  return Math.min(
+    getHandicap(settings, player).minPicksPerTurn ?? settings.minPicksPerTurn,
+    getPicksPerTurn(settings, player)
+  );
+}
+
+export function hasBonusMine(settings: GameSettings): boolean {
+  return Object.values(settings.handicaps).some((handicap) => handicap.bonusMine);
+}
+
+export function describeHandicap(settings: GameSettings, player: string): string[] {
+  const handicap = getHandicap(settings, player);
+  const labels: string[] = [];
+  if (handicap.picksPerTurn !== undefined) labels.push(`${handicap.picksPerTurn} picks`);
+  if (handicap.minPicksPerTurn !== undefined) labels.push(`min ${handicap.minPicksPerTurn}`);
+  if (handicap.bonusMine) labels.push("+1 mine");
+  return labels;
+}
+
+function normalizeHandicaps(raw: unknown, maxPicks: number): Record<string, Handicap> {
+  const handicaps: Record<string, Handicap> = {};
+  if (!raw || typeof raw !== "object") return handicaps;
+  for (const [player, entry] of Object.entries(raw as Record<string, Handicap>)) {
+    if (!entry || typeof entry !== "object") continue;
+    const handicap: Handicap = {};
+    if (entry.picksPerTurn !== undefined) {
+      handicap.picksPerTurn = clamp(entry.picksPerTurn, 1, maxPicks);
+    }
+    if (entry.minPicksPerTurn !== undefined) {
+      handicap.minPicksPerTurn = clamp(
+        entry.minPicksPerTurn,
+        1,
+        handicap.picksPerTurn ?? maxPicks
+      );
+    }
+    if (entry.bonusMine) handicap.bonusMine = true;
+    if (Object.keys(handicap).length > 0) handicaps[player] = handicap;
+  }
+  return handicaps;
+}
+
+export function normalizeSettings(input: Partial<GameSettings>): GameSettings {
+  const merged = { ...DEFAULT_SETTINGS, ...input };
+  const rows = clamp(merged.rows, BOARD_LIMITS.minSide, BOARD_LIMITS.maxRows);
+  const columns = clamp(merged.columns, BOARD_LIMITS.minSide, BOARD_LIMITS.maxColumns);
+  const maxMines = getMaxMines({ rows, columns });
+  const picksPerTurn = clamp(
+    merged.picksPerTurn,
+    1,
+    Math.min(BOARD_LIMITS.maxPicksPerTurn, maxMines)
+  );
+  const mineCount = clamp(merged.mineCount, 1, maxMines);
+  let freeTiles = maxMines - mineCount;
+  const takeFree = (count: number) => {
+    const taken = clamp(count, 0, freeTiles);
+    freeTiles -= taken;
+    return taken;
+  };
+  return {
+    rows,
+    columns,
+    picksPerTurn,
+    minPicksPerTurn: clamp(merged.minPicksPerTurn, 1, picksPerTurn),
+    mineCount,
+    elimination: !!merged.elimination,
+    turnSeconds: clamp(merged.turnSeconds, 0, BOARD_LIMITS.maxTurnSeconds),
+    proximity: !!merged.proximity,
+    shieldCount: takeFree(merged.shieldCount),
+    skipCount: takeFree(merged.skipCount),
+    doubleCount: takeFree(merged.doubleCount),
+    reverseCount: takeFree(merged.reverseCount),
+    hider: !!merged.hider,
+    hiderPickLimit: clamp(merged.hiderPickLimit, 1, BOARD_LIMITS.maxHiderPickLimit),
+    banking: !!merged.banking,
+    targetScore: clamp(
+      merged.targetScore,
+      BOARD_LIMITS.targetScoreStep,
+      BOARD_LIMITS.maxTargetScore
+    ),
+    riskMeter: !!merged.riskMeter,
+    mineRampStep: clamp(merged.mineRampStep, 0, BOARD_LIMITS.maxMineRampStep),
+    mineRampRounds: clamp(merged.mineRampRounds, 0, BOARD_LIMITS.maxMineRampRounds),
+    handicaps: normalizeHandicaps(
+      merged.handicaps,
+      Math.min(BOARD_LIMITS.maxPicksPerTurn, maxMines)
+    ),
+  };
+}
+
+export function parseSettings(raw: string | string[] | undefined): GameSettings {
+  try {
+    return normalizeSettings(raw ? JSON.parse(raw as string) : {});
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
@@ -0,0 +1,34 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export const STORAGE_KEYS = {
+  scoreboard: "slap-grid/scoreboard",
+  savedGame: "slap-grid/saved-game",
+  history: "slap-grid/history",
+  replays: "slap-grid/replays",
+  roster: "slap-grid/roster",
+};
+
+export async function loadJSON<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function saveJSON<T>(key: string, value: T): Promise<void> {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Losing a write only costs the latest change; the next save retries.
+  }
+}
+
+export async function removeKey(key: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(key);
+  } catch {
+    // Nothing stored under the key is the state we wanted anyway.
+  }
+}
@@ -0,0 +1,82 @@
+import type { BotDifficulty } from "@/lib/bots";
+import {
+  type GameState,
+  canEndTurn,
+  canPick,
+  canUseSkip,
+  getCurrentPlayer,
+  getNeighbors,
+  getPicksMade,
+} from "@/lib/engine";
+import { getRiskOdds } from "@/lib/odds";
+import { createRng } from "@/lib/rng";
+import { getMinPicksPerTurn } from "@/lib/settings";
+
+export type BotMove = { type: "pick"; index: number } | { type: "endTurn" } | { type: "useSkip" };
+
+export function estimateMineChance(state: GameState, index: number): number {
+  const { grid, settings } = state;
+  const baseChance = getRiskOdds(state).mineChance;
+  if (!settings.proximity) return baseChance;
+
+  let chance = baseChance;
+  for (const neighbor of getNeighbors(index, settings.rows, settings.columns)) {
+    const tile = grid[neighbor];
+    if (!tile.isRevealed || tile.isMine) continue;
+    const around = getNeighbors(neighbor, settings.rows, settings.columns).map((i) => grid[i]);
+    const unknown = around.filter((t) => !t.isRevealed).length;
+    const remaining = tile.adjacentMines - around.filter((t) => t.isRevealed && t.isMine).length;
+    if (remaining <= 0) return 0;
+    chance = Math.max(chance, unknown ? remaining / unknown : 1);
+  }
+  return chance;
+}
+
+function choosePickCount(state: GameState, difficulty: BotDifficulty): number {
+  const random = createRng(state.seed + state.turn);
+  const min = Math.max(1, getMinPicksPerTurn(state.settings, getCurrentPlayer(state) ?? ""));
+  const max = getPicksMade(state) + state.picksLeft;
+  switch (difficulty) {
+    case "easy":
+      return max;
+    case "normal":
+      return min + Math.floor(random() * (max - min + 1));
+    case "hard":
+      return min;
+  }
+}
+
+export function chooseBotMove(
+  state: GameState,
+  difficulty: BotDifficulty,
+  seed: number
+): BotMove | null {
+  if (
+    getCurrentPlayer(state) === undefined ||
+    state.isGameOver ||
+    state.isPlacing ||
+    state.winner
+  ) {
+    return null;
+  }
+  const random = createRng(seed);
+  if (difficulty === "hard" && getPicksMade(state) === 0 && canUseSkip(state)) {
+    return { type: "useSkip" };
+  }
+  if (canEndTurn(state) && getPicksMade(state) >= choosePickCount(state, difficulty)) {
+    return { type: "endTurn" };
+  }
+
+  const options = state.grid.filter((tile) => canPick(state, tile.id));
+  if (options.length === 0) return canEndTurn(state) ? { type: "endTurn" } : null;
+  const readsNumbers =
+    state.settings.proximity &&
+    (difficulty === "hard" || (difficulty === "normal" && random() < 0.5));
+  if (!readsNumbers) {
+    return { type: "pick", index: options[Math.floor(random() * options.length)].id };
+  }
+  const chances = options.map((tile) => estimateMineChance(state, tile.id));
+  const safest = Math.min(...chances);
+  const best = options.filter((_, i) => chances[i] === safest);
+  return { type: "pick", index: best[Math.floor(random() * best.length)].id };
+}
@@ -0,0 +1,222 @@
+const { Buffer } = require("buffer");
+const crypto = require("crypto");
+const http = require("http");
+
+const PORT = Number(process.env.PORT) || 8787;
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const EMPTY_ROOM_TTL = 10 * 60 * 1000;
+// Game states are a few KiB; anything far bigger is a broken or hostile client.
+const MAX_PAYLOAD = 128 * 1024;
+
+const rooms = new Map();
+
+function getRoom(code) {
+  let room = rooms.get(code);
+  if (!room) {
+    room = {
+      host: null,
+      hostToken: null,
+      guests: new Map(),
+      guestTokens: new Map(),
+      lastState: null,
+      emptySince: 0,
+    };
+    rooms.set(code, room);
+  }
+  return room;
+}
+
+function createToken() {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
+
+function send(socket, message) {
+  if (socket && !socket.destroyed) {
+    socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+}
+
+function decodeFrames(client, chunk, onText) {
+  if (client.isClosing) return;
+  client.buffer = Buffer.concat([client.buffer, chunk]);
+  while (client.buffer.length >= 2) {
+    const opcode = client.buffer[0] & 0x0f;
+    const masked = (client.buffer[1] & 0x80) !== 0;
+    let length = client.buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (client.buffer.length < 4) return;
+      length = client.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (client.buffer.length < 10) return;
+      length = Number(client.buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (length > MAX_PAYLOAD) {
+      const reason = Buffer.alloc(2);
+      reason.writeUInt16BE(1009);
+      client.isClosing = true;
+      client.buffer = Buffer.alloc(0);
+      client.socket.end(encodeFrame(0x8, reason));
+      return;
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (client.buffer.length < offset + length) return;
+
+    const payload = Buffer.from(client.buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= client.buffer[maskOffset + (i % 4)];
+      }
+    }
+    client.buffer = client.buffer.subarray(offset + length);
+
+    if (opcode === 0x1) onText(payload.toString("utf8"));
+    else if (opcode === 0x8) client.socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    else if (opcode === 0x9) client.socket.write(encodeFrame(0xa, payload));
+  }
+}
+
+function handleMessage(client, text) {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (message.type === "join") {
+    if (typeof message.room !== "string" || typeof message.clientId !== "string") return;
+    const code = message.room.toUpperCase();
+    const room = getRoom(code);
+    const role = message.role === "host" ? "host" : "guest";
+    // The first socket to claim the host seat or a guest id gets a token; later joins must present it.
+    const token = role === "host" ? room.hostToken : room.guestTokens.get(message.clientId);
+    if (token && message.token !== token) {
+      send(client.socket, { type: "refused", room: code });
+      client.socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      return;
+    }
+    client.room = code;
+    client.clientId = message.clientId;
+    client.role = role;
+    room.emptySince = 0;
+    if (role === "host") {
+      room.hostToken ??= createToken();
+      if (room.host && room.host !== client) room.host.socket.destroy();
+      room.host = client;
+      for (const guest of room.guests.values()) send(guest.socket, { type: "hostOnline" });
+    } else {
+      if (!token) room.guestTokens.set(client.clientId, createToken());
+      const previous = room.guests.get(client.clientId);
+      if (previous && previous !== client) previous.socket.destroy();
+      room.guests.set(client.clientId, client);
+      send(room.host?.socket, { type: "guestJoined", clientId: client.clientId });
+    }
+    send(client.socket, {
+      type: "joined",
+      room: client.room,
+      hostOnline: !!room.host,
+      token: role === "host" ? room.hostToken : room.guestTokens.get(client.clientId),
+    });
+    if (client.role === "guest" && room.lastState) send(client.socket, room.lastState);
+    return;
+  }
+
+  const room = client.room && rooms.get(client.room);
+  if (!room) return;
+  const isHost = room.host === client && message.token === room.hostToken;
+  if (message.type === "state" && isHost) {
+    const { token: _token, ...state } = message;
+    room.lastState = state;
+    for (const guest of room.guests.values()) send(guest.socket, state);
+  } else if (message.type === "seat" && isHost) {
+    const guest = room.guests.get(message.clientId);
+    if (guest) send(guest.socket, { type: "seat", player: message.player ?? null });
+  } else if (message.type === "action" || message.type === "claim") {
+    if (client.role === "guest") send(room.host?.socket, { ...message, clientId: client.clientId });
+  }
+}
+
+function handleClose(client) {
+  const room = client.room && rooms.get(client.room);
+  if (!room) return;
+  if (room.host === client) {
+    room.host = null;
+    for (const guest of room.guests.values()) send(guest.socket, { type: "hostOffline" });
+  } else if (room.guests.get(client.clientId) === client) {
+    room.guests.delete(client.clientId);
+    send(room.host?.socket, { type: "guestLeft", clientId: client.clientId });
+  }
+  if (!room.host && room.guests.size === 0) room.emptySince = Date.now();
+}
+
+const server = http.createServer((_, response) => {
+  response.writeHead(200, { "Content-Type": "text/plain" });
+  response.end("Slap Grid relay\n");
+});
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = crypto
+    .createHash("sha1")
+    .update(key + HANDSHAKE_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n")
+  );
+  socket.setNoDelay(true);
+
+  const client = {
+    socket,
+    buffer: Buffer.alloc(0),
+    isClosing: false,
+    room: null,
+    clientId: null,
+    role: null,
+  };
+  socket.on("data", (chunk) => decodeFrames(client, chunk, (text) => handleMessage(client, text)));
+  socket.on("close", () => handleClose(client));
+  socket.on("error", () => socket.destroy());
+});
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [code, room] of rooms) {
+    if (room.emptySince && now - room.emptySince > EMPTY_ROOM_TTL) rooms.delete(code);
+  }
+}, 60 * 1000).unref();
+
+server.listen(PORT, () => {
+  console.log(`Slap Grid relay listening on ws://0.0.0.0:${PORT}`);
+});